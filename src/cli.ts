@@ -0,0 +1,79 @@
+#!/usr/bin/env node
+
+import {resolve} from 'path';
+import {scaffoldRule, ScaffoldRuleKind} from './scaffold';
+
+const usage = `Usage: stylelint-rule-creator new <plugin-name>/<rule-name> [--default|--bare] [--rules-dir <dir>] [--pack <file>]
+
+    --default          create a rule with createDefaultRule (the default)
+    --bare             create a rule with createRule
+    --rules-dir <dir>  directory to create the rule's directory in (default: src/rules)
+    --pack <file>      plugin pack file to register the rule in (default: src/index.ts)`;
+
+/**
+ * Runs the CLI with the given arguments (excluding the node and script paths).
+ *
+ * @returns The process exit code
+ */
+export function runCli(args: ReadonlyArray<string>, cwd = process.cwd()): number {
+    const [
+        command,
+        ...commandArgs
+    ] = args;
+
+    if (command !== 'new') {
+        console.error(usage);
+        return 1;
+    }
+
+    let ruleName: string | undefined;
+    let kind = ScaffoldRuleKind.DEFAULT;
+    let rulesDir = 'src/rules';
+    let pluginPackPath = 'src/index.ts';
+
+    for (let index = 0; index < commandArgs.length; index++) {
+        const arg = commandArgs[index]!;
+        if (arg === '--default') {
+            kind = ScaffoldRuleKind.DEFAULT;
+        } else if (arg === '--bare') {
+            kind = ScaffoldRuleKind.BARE;
+        } else if ((arg === '--rules-dir' || arg === '--pack') && commandArgs[index + 1]) {
+            index++;
+            if (arg === '--rules-dir') {
+                rulesDir = commandArgs[index]!;
+            } else {
+                pluginPackPath = commandArgs[index]!;
+            }
+        } else if (!arg.startsWith('-') && !ruleName) {
+            ruleName = arg;
+        } else {
+            console.error(`Unexpected argument "${arg}"\n\n${usage}`);
+            return 1;
+        }
+    }
+
+    if (!ruleName) {
+        console.error(usage);
+        return 1;
+    }
+
+    try {
+        const changedFiles = scaffoldRule({
+            ruleName,
+            kind,
+            rulesDir: resolve(cwd, rulesDir),
+            pluginPackPath: resolve(cwd, pluginPackPath),
+        });
+        console.info(
+            `Created "${ruleName}":\n${changedFiles.map((file) => `    ${file}`).join('\n')}`,
+        );
+        return 0;
+    } catch (error) {
+        console.error(error instanceof Error ? error.message : error);
+        return 1;
+    }
+}
+
+if (require.main === module) {
+    process.exitCode = runCli(process.argv.slice(2));
+}
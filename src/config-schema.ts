@@ -0,0 +1,262 @@
+import {OptionSchema} from './option-schema';
+import {PluginPack} from './plugin-pack';
+import {Rule} from './rule';
+
+/** The subset of JSON Schema (draft-07) which generated schemas use. */
+export type JsonSchema = {
+    $schema?: string;
+    title?: string;
+    description?: string;
+    type?: 'string' | 'number' | 'boolean' | 'array' | 'object' | 'null';
+    enum?: ReadonlyArray<string | number>;
+    items?: JsonSchema | JsonSchema[];
+    minItems?: number;
+    maxItems?: number;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    additionalProperties?: boolean;
+    anyOf?: JsonSchema[];
+};
+
+const jsonSchemaVersion = 'http://json-schema.org/draft-07/schema#';
+
+function withDescription(jsonSchema: JsonSchema, schema: Readonly<OptionSchema>): JsonSchema {
+    return schema.description ? {description: schema.description, ...jsonSchema} : jsonSchema;
+}
+
+/**
+ * Converts an OptionSchema into the equivalent JSON Schema.
+ *
+ * @param schema The schema to convert, such as a DefaultRule's optionsSchema
+ */
+export function optionSchemaToJsonSchema(schema: Readonly<OptionSchema>): JsonSchema {
+    switch (schema.type) {
+        case 'string':
+        case 'number':
+            return withDescription(
+                {type: schema.type, ...(schema.enum ? {enum: schema.enum} : {})},
+                schema,
+            );
+        case 'boolean':
+            return withDescription({type: 'boolean'}, schema);
+        case 'array':
+            return withDescription(
+                {type: 'array', items: optionSchemaToJsonSchema(schema.items)},
+                schema,
+            );
+        case 'object': {
+            const keys = Object.keys(schema.properties);
+            const required = keys.filter((key) => !schema.properties[key]!.optional);
+            return withDescription(
+                {
+                    type: 'object',
+                    properties: keys.reduce((accum: Record<string, JsonSchema>, key) => {
+                        accum[key] = optionSchemaToJsonSchema(schema.properties[key]!);
+                        return accum;
+                    }, {}),
+                    ...(required.length ? {required} : {}),
+                    additionalProperties: !!schema.allowUnknownProperties,
+                },
+                schema,
+            );
+        }
+        case 'oneOf':
+            return withDescription({anyOf: schema.options.map(optionSchemaToJsonSchema)}, schema);
+    }
+}
+
+/** Stylelint's [primaryOption, secondaryOptions] form of a rule's setting. */
+function createOptionsTupleJsonSchema(primaryOptionJsonSchema: JsonSchema): JsonSchema {
+    return {
+        type: 'array',
+        items: [
+            primaryOptionJsonSchema,
+            {type: 'object'},
+        ],
+        minItems: 1,
+        maxItems: 2,
+    };
+}
+
+/**
+ * Creates the JSON Schema for a rule's setting in a stylelint config's rules section. Every rule
+ * can be disabled with null. DefaultRules also accept a boolean. Every rule's primary option can be
+ * given on its own or with secondary options. Rules without an optionsSchema accept anything.
+ */
+export function createRuleConfigJsonSchema(rule: Readonly<Rule<any>>): JsonSchema {
+    if (!rule.optionsSchema) {
+        return {};
+    }
+    const optionsJsonSchema = optionSchemaToJsonSchema(rule.optionsSchema);
+
+    if ('defaultOptions' in rule) {
+        return {
+            anyOf: [
+                {type: 'null'},
+                {type: 'boolean'},
+                optionsJsonSchema,
+                createOptionsTupleJsonSchema({
+                    anyOf: [
+                        {type: 'boolean'},
+                        optionsJsonSchema,
+                    ],
+                }),
+            ],
+        };
+    }
+    return {
+        anyOf: [
+            {type: 'null'},
+            optionsJsonSchema,
+            createOptionsTupleJsonSchema(optionsJsonSchema),
+        ],
+    };
+}
+
+/**
+ * Creates a JSON Schema for stylelint config files which use the given plugin pack. Only the pack's
+ * own rules are described, all other config properties and rules are left unchecked. This can be
+ * given to editors to validate .stylelintrc.json files.
+ */
+export function createPluginPackJsonSchema(pack: Readonly<PluginPack>): JsonSchema {
+    return {
+        $schema: jsonSchemaVersion,
+        title: `stylelint config for ${pack.prefix}`,
+        type: 'object',
+        properties: {
+            rules: {
+                type: 'object',
+                properties: pack.reduce((accum: Record<string, JsonSchema>, rule) => {
+                    const ruleDescription = rule.meta?.description;
+                    accum[rule.ruleName] = ruleDescription
+                        ? {description: ruleDescription, ...createRuleConfigJsonSchema(rule)}
+                        : createRuleConfigJsonSchema(rule);
+                    return accum;
+                }, {}),
+                additionalProperties: true,
+            },
+        },
+        additionalProperties: true,
+    };
+}
+
+function quoteTypeScriptString(input: string): string {
+    return `'${input.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function formatPropertyName(name: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(name) ? name : quoteTypeScriptString(name);
+}
+
+function formatDocComment(description: string | undefined): string {
+    return description ? `/** ${description} */\n` : '';
+}
+
+function indentLines(lines: string[], indent: string): string {
+    return lines.map((line) => `${indent}${line}`.trimEnd()).join('\n');
+}
+
+function formatObjectType(
+    members: ReadonlyArray<{name: string; type: string; optional: boolean; description?: string}>,
+    trailingMembers: string[] = [],
+): string {
+    const memberLines = members
+        .map((member) =>
+            [
+                formatDocComment(member.description),
+                `${formatPropertyName(member.name)}${member.optional ? '?' : ''}: ${member.type};`,
+            ].join(''),
+        )
+        .concat(trailingMembers);
+
+    if (!memberLines.length) {
+        return '{}';
+    }
+    return `{\n${indentLines(memberLines.join('\n').split('\n'), '    ')}\n}`;
+}
+
+function isUnionSchema(schema: Readonly<OptionSchema>): boolean {
+    return (
+        schema.type === 'oneOf' ||
+        ((schema.type === 'string' || schema.type === 'number') && (schema.enum?.length ?? 0) > 1)
+    );
+}
+
+/**
+ * Converts an OptionSchema into the source code of an equivalent TypeScript type.
+ *
+ * @param schema The schema to convert, such as a DefaultRule's optionsSchema
+ */
+export function optionSchemaToTypeScript(schema: Readonly<OptionSchema>): string {
+    switch (schema.type) {
+        case 'string':
+            return schema.enum ? schema.enum.map(quoteTypeScriptString).join(' | ') : 'string';
+        case 'number':
+            return schema.enum ? schema.enum.map(String).join(' | ') : 'number';
+        case 'boolean':
+            return 'boolean';
+        case 'array': {
+            const itemType = optionSchemaToTypeScript(schema.items);
+            return isUnionSchema(schema.items) ? `(${itemType})[]` : `${itemType}[]`;
+        }
+        case 'object':
+            return formatObjectType(
+                Object.entries(schema.properties).map(
+                    ([
+                        name,
+                        propertySchema,
+                    ]) => {
+                        return {
+                            name,
+                            type: optionSchemaToTypeScript(propertySchema),
+                            optional: !!propertySchema.optional,
+                            ...(propertySchema.description
+                                ? {description: propertySchema.description}
+                                : {}),
+                        };
+                    },
+                ),
+                schema.allowUnknownProperties ? ['[key: string]: unknown;'] : [],
+            );
+        case 'oneOf':
+            return schema.options.map(optionSchemaToTypeScript).join(' | ');
+    }
+}
+
+/** Creates the source code of the TypeScript type for a rule's setting in a stylelint config. */
+export function createRuleConfigTypeScript(rule: Readonly<Rule<any>>): string {
+    if (!rule.optionsSchema) {
+        return 'unknown';
+    }
+    const optionsType = optionSchemaToTypeScript(rule.optionsSchema);
+
+    if ('defaultOptions' in rule) {
+        return `null | boolean | ${optionsType} | [boolean | ${optionsType}, Record<string, unknown>?]`;
+    }
+    return `null | ${optionsType} | [${optionsType}, Record<string, unknown>?]`;
+}
+
+/**
+ * Creates the contents of a .d.ts file which describes the rules section of stylelint configs using
+ * the given plugin pack.
+ *
+ * @param pack The plugin pack to describe
+ * @param typeName The name of the exported type
+ */
+export function createPluginPackTypings(
+    pack: Readonly<PluginPack>,
+    typeName = 'PluginRulesConfig',
+): string {
+    const rulesType = formatObjectType(
+        pack.map((rule) => {
+            return {
+                name: rule.ruleName,
+                type: createRuleConfigTypeScript(rule),
+                optional: true,
+                ...(rule.meta?.description ? {description: rule.meta.description} : {}),
+            };
+        }),
+    );
+
+    return `/** Rules provided by the "${pack.prefix}" stylelint plugin. */\nexport type ${typeName} = ${rulesType};\n`;
+}
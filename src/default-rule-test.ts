@@ -1,55 +1,275 @@
+import {escapeStringForRegExp} from 'augment-vir';
+import {ChildNode, Document, parse, Root, Syntax} from 'postcss';
 import {LinterOptions} from 'stylelint';
-import {testRule, TestRuleInput} from 'stylelint-jest-rule-tester';
+import {inspect} from 'util';
 import {
+    createDefaultRuleOptionsSchema,
     DefaultOptionMode,
     DefaultRule,
     DefaultRuleMessagesType,
     DefaultRuleOptions,
     DisabledDefaultRuleOptions,
+    ExceptionPattern,
+    findDefaultRuleOptionsIssues,
 } from './default-rule';
-import {Rule} from './rule';
+import {findOptionSchemaIssues, OptionSchema} from './option-schema';
+import {PluginPack} from './plugin-pack';
+import {RuleTestSnapshotOptions} from './rule-snapshot';
+import {
+    createRuleTestCases,
+    ExpectedSuggestion,
+    RejectTestCase,
+    TestCase,
+    TestRuleInput,
+    WarningMessage,
+} from './rule-test';
+import {jestAdapter, RuleTestCase, TestRunnerAdapter} from './test-runner';
+import {RulePosition} from './violation-range';
 
 /**
- * An actual test that is used in TestDefaultRuleInput. This is just TestRuleInput from the
- * stylelint-jest-rule-tester plugin but without the ruleName property.
+ * An actual test that is used in TestDefaultRuleInput. This is just TestRuleInput but without the
+ * ruleName, rule, and snapshot properties.
  */
 export type DefaultRuleTest<RuleOptions extends DefaultRuleOptions> = Omit<
     TestRuleInput<RuleOptions | boolean>,
-    'ruleName'
->;
+    'ruleName' | 'rule' | 'snapshot'
+> & {
+    /** Run this test under these syntaxes instead of the syntaxes given to testDefaultRule. */
+    syntaxes?: TestSyntax[] | undefined;
+};
+
+/** Syntaxes which the tests given to testDefaultRule can be run under. */
+export enum TestSyntax {
+    CSS = 'css',
+    SCSS = 'scss',
+    LESS = 'less',
+    SASS = 'sass',
+    HTML = 'html',
+    VUE = 'vue',
+    JSX = 'jsx',
+}
+
+/** Test code which was converted into another syntax. */
+export type ConvertedTestCode = {
+    code: string;
+    /** Finds where a position in the original code is in the converted code. */
+    convertPosition: (position: Readonly<RulePosition>) => RulePosition | undefined;
+};
+
+/** How tests are run under a TestSyntax. */
+export type TestSyntaxDetails = {
+    customSyntax: string | undefined;
+    extension: string;
+    /**
+     * Converts a test's CSS code into this syntax, such as by embedding it in a style tag. When
+     * this is undefined, the code is used as is. Test cases whose code can't be converted fail.
+     */
+    convertCode?: ((code: string) => ConvertedTestCode | undefined) | undefined;
+    /**
+     * False when the syntax can't stringify the code it parses, in which case tests with fix
+     * enabled and test cases with suggestions can't be converted.
+     */
+    canStringify: boolean;
+};
+
+function createEmbeddedCodeConverter(
+    // this must end with a new line so that the columns of the embedded code don't change
+    prefix: string,
+    suffix: string,
+): (code: string) => ConvertedTestCode {
+    const lineOffset = prefix.split('\n').length - 1;
+    return (code) => {
+        return {
+            code: `${prefix}${code}${suffix}`,
+            convertPosition: (position) => {
+                return {line: position.line + lineOffset, column: position.column};
+            },
+        };
+    };
+}
+
+const convertToJsx = createEmbeddedCodeConverter(
+    `import {createGlobalStyle} from 'styled-components';\n\nexport const GlobalStyle = createGlobalStyle\`\n`,
+    '\n`;\n',
+);
+
+function getNodeDepth(node: Readonly<ChildNode>): number {
+    return node.parent?.type === 'root' ? 0 : 1 + getNodeDepth(node.parent as ChildNode);
+}
+
+/**
+ * Converts CSS into Sass's indented syntax by putting each node on its own line, indented by its
+ * depth, without braces or semicolons. Only code made of rules, declarations, and comments which
+ * each fit on a single line can be converted, as postcss-sass loses the positions of at-rules.
+ * Positions are converted when they're on a node's selector or on a declaration or comment.
+ */
+function convertToSass(code: string): ConvertedTestCode | undefined {
+    let root: Root;
+    try {
+        root = parse(code);
+    } catch (error) {
+        return undefined;
+    }
+    const lines: string[] = [];
+    const movedNodes: {originalStart: RulePosition; start: RulePosition; length: number}[] = [];
+    let isConvertible = true;
+
+    root.walk((node) => {
+        const nodeText =
+            node.type === 'rule'
+                ? node.nodes.length
+                    ? node.selector
+                    : undefined
+                : node.type === 'decl' || node.type === 'comment'
+                ? node.toString()
+                : undefined;
+        const originalStart = node.source?.start;
+        if (
+            nodeText == undefined ||
+            !originalStart ||
+            nodeText.includes('\n') ||
+            code.slice(originalStart.offset, originalStart.offset + nodeText.length) !== nodeText
+        ) {
+            isConvertible = false;
+            return false;
+        }
+        const indent = '  '.repeat(getNodeDepth(node));
+        lines.push(`${indent}${nodeText}`);
+        movedNodes.push({
+            originalStart,
+            start: {line: lines.length, column: indent.length + 1},
+            length: nodeText.length,
+        });
+        return undefined;
+    });
+    if (!isConvertible) {
+        return undefined;
+    }
+
+    return {
+        code: lines.join('\n'),
+        convertPosition: (position) => {
+            // warnings on the root are always at its start
+            if (position.line === 1 && position.column === 1) {
+                return position;
+            }
+            const movedNode = movedNodes.find(
+                (node) =>
+                    node.originalStart.line === position.line &&
+                    position.column >= node.originalStart.column &&
+                    position.column <= node.originalStart.column + node.length,
+            );
+            return (
+                movedNode && {
+                    line: movedNode.start.line,
+                    column:
+                        movedNode.start.column + position.column - movedNode.originalStart.column,
+                }
+            );
+        },
+    };
+}
+
+/**
+ * How tests are run under each TestSyntax. The syntax modules are not dependencies of this package,
+ * so they must be installed to test with them.
+ */
+export const testSyntaxes: Readonly<Record<TestSyntax, Readonly<TestSyntaxDetails>>> = {
+    [TestSyntax.CSS]: {customSyntax: undefined, extension: 'css', canStringify: true},
+    [TestSyntax.SCSS]: {customSyntax: 'postcss-scss', extension: 'scss', canStringify: true},
+    [TestSyntax.LESS]: {customSyntax: 'postcss-less', extension: 'less', canStringify: true},
+    [TestSyntax.SASS]: {
+        customSyntax: 'postcss-sass',
+        extension: 'sass',
+        convertCode: convertToSass,
+        // postcss-sass stringifies everything as CSS
+        canStringify: false,
+    },
+    [TestSyntax.HTML]: {
+        customSyntax: 'postcss-html',
+        extension: 'html',
+        convertCode: createEmbeddedCodeConverter('<style>\n', '\n</style>\n'),
+        canStringify: true,
+    },
+    [TestSyntax.VUE]: {
+        customSyntax: 'postcss-html',
+        extension: 'vue',
+        convertCode: createEmbeddedCodeConverter(
+            '<template>\n    <div></div>\n</template>\n\n<style>\n',
+            '\n</style>\n',
+        ),
+        canStringify: true,
+    },
+    [TestSyntax.JSX]: {
+        customSyntax: '@stylelint/postcss-css-in-js',
+        extension: 'jsx',
+        // code with these can't be put in a template literal without changing it
+        convertCode: (code) => (/`|\\|\$\{/.test(code) ? undefined : convertToJsx(code)),
+        canStringify: true,
+    },
+};
+
+function getTestSyntaxForFileName(fileName: string): TestSyntax | undefined {
+    return Object.values(TestSyntax).find((syntax) =>
+        fileName.endsWith(`.${testSyntaxes[syntax].extension}`),
+    );
+}
 
 /**
  * The input to testDefaultRule function which pulls out the need to redefine the rule name or
- * plugin path for every single test.
+ * plugin path for every single test. When no plugin paths or plugin pack are given, the rule is
+ * registered with stylelint in memory, so tests can run straight from source without compiling a
+ * plugin first.
  */
 export type TestDefaultRuleInput<
     MessagesType extends DefaultRuleMessagesType,
     RuleOptions extends DefaultRuleOptions,
-> =
-    | {
-          rule: DefaultRule<RuleOptions, MessagesType>;
-          tests: DefaultRuleTest<RuleOptions>[];
-          // This must include either a single string pluginPath or...
-          pluginPath: string;
-          pluginPaths?: string[];
-      }
-    | {
-          rule: DefaultRule<RuleOptions, MessagesType>;
-          tests: DefaultRuleTest<RuleOptions>[];
-          pluginPath?: string;
-          // ... must include an array of pluginPaths.
-          pluginPaths: string[];
-      };
+> = {
+    rule: DefaultRule<RuleOptions, MessagesType>;
+    tests: DefaultRuleTest<RuleOptions>[];
+    pluginPath?: string | undefined;
+    pluginPaths?: string[] | undefined;
+    /** The plugin pack which includes the rule. Its plugin path is loaded by stylelint. */
+    pluginPack?: PluginPack | undefined;
+    /**
+     * Run every given test under each of these syntaxes, with a matching file extension for
+     * codeFilename. Each test's description says which syntax it ran under. Generated exemption
+     * tests also run under each syntax. Test cases which can't be converted into a syntax throw an
+     * error, so leave that syntax out of the test's own syntaxes. When this is not given, each test
+     * runs only under its own linterOptions.
+     */
+    syntaxes?: TestSyntax[] | undefined;
+    /**
+     * Record the results of the reject test cases in the given tests (not the generated tests) in a
+     * snapshot file. See TestRuleInput.
+     */
+    snapshot?: RuleTestSnapshotOptions | undefined;
+};
 
 function createInvalidOptionsTests<
     MessagesType extends DefaultRuleMessagesType,
     RuleOptions extends DefaultRuleOptions = DefaultRuleOptions,
 >(
-    rule: Rule<MessagesType>,
+    rule: DefaultRule<any, MessagesType>,
     // this uses partial here because it will be merged with the original test's options
     ruleOptions: Partial<RuleOptions> | boolean,
     testInputs: Readonly<DefaultRuleTest<RuleOptions>[]>,
 ): DefaultRuleTest<RuleOptions>[] {
+    const messages = findDefaultRuleOptionsIssues(ruleOptions, rule.optionsSchema).map((issue) =>
+        rule.messages.invalidOptions(issue),
+    );
+    if (!messages.length) {
+        throw new Error(
+            `Generated invalid options ${JSON.stringify(ruleOptions)} are valid for "${
+                rule.ruleName
+            }".`,
+        );
+    }
+    // invalid options are reported on the root node, which always starts at 1:1
+    const warnings =
+        messages.length > 1
+            ? {warnings: messages.map((message) => ({message, line: 1, column: 1}))}
+            : {message: messages[0]!, line: 1, column: 1};
     const invalidOptionsTests: DefaultRuleTest<RuleOptions>[] = testInputs.map((testInput) => {
         const invalidOptionsTest: DefaultRuleTest<RuleOptions> = {
             ...testInput,
@@ -58,7 +278,7 @@ function createInvalidOptionsTests<
             description: 'everything should be rejected when invalid options are given',
             accept: [],
             reject: testInput.accept.map((test) => {
-                const invalidTest = {...test, message: rule.messages.invalidOptions(ruleOptions)};
+                const invalidTest: RejectTestCase = {...test, ...warnings};
                 if (invalidTest.description) {
                     invalidTest.description = `everything in "${invalidTest.description}" should be rejected when invalid options are given`;
                 }
@@ -83,11 +303,55 @@ function createValidOptionsTest<RuleOptions extends DefaultRuleOptions = Default
     };
 }
 
+/**
+ * Finds a value which does not match the given schema, used to generate invalid options tests for
+ * each property in a rule's options schema.
+ *
+ * @returns Undefined when the schema accepts every candidate value.
+ */
+function createSchemaViolatingValue(schema: Readonly<OptionSchema>): unknown {
+    return [
+        'not a valid value',
+        5,
+        true,
+        ['not a valid value'],
+        {notAValidProperty: 'not a valid value'},
+    ].find((value) => findOptionSchemaIssues(value, schema).length);
+}
+
+/**
+ * Creates invalid options objects from the rule's options schema by replacing each of the rule's
+ * own (non DefaultRuleOptions) properties in its default options with an invalid value. Properties
+ * which accept any value are skipped.
+ */
+function createSchemaInvalidOptions<RuleOptions extends DefaultRuleOptions>(
+    rule: Readonly<DefaultRule<any, any>>,
+): Partial<RuleOptions>[] {
+    const defaultOptions: DefaultRuleOptions = rule.defaultOptions;
+    if (defaultOptions.mode === DefaultOptionMode.OFF) {
+        return [];
+    }
+    const baseProperties = createDefaultRuleOptionsSchema().properties;
+    return Object.keys(rule.optionsSchema.properties)
+        .filter((key) => !baseProperties.hasOwnProperty(key))
+        .flatMap((key) => {
+            const violatingValue = createSchemaViolatingValue(rule.optionsSchema.properties[key]!);
+            return violatingValue === undefined
+                ? []
+                : [
+                      {
+                          ...defaultOptions,
+                          [key]: violatingValue,
+                      } as Partial<RuleOptions>,
+                  ];
+        });
+}
+
 function createDefaultRuleTests<
     MessagesType extends DefaultRuleMessagesType,
     RuleOptions extends DefaultRuleOptions = DefaultRuleOptions,
 >(
-    rule: Readonly<Rule<MessagesType>>,
+    rule: Readonly<DefaultRule<any, MessagesType>>,
     testInputs: Readonly<DefaultRuleTest<RuleOptions>[]>,
 ): DefaultRuleTest<RuleOptions>[] {
     const invalidOptionsTests: DefaultRuleTest<RuleOptions>[] = (
@@ -99,6 +363,17 @@ function createDefaultRuleTests<
             {mode: DefaultOptionMode.BLOCK, fileExceptions: [true]},
             {mode: DefaultOptionMode.REQUIRE, fileExceptions: [true]},
             {mode: DefaultOptionMode.REQUIRE, fileExceptions: [{}]},
+            {mode: DefaultOptionMode.REQUIRE, fileExceptions: [{regex: '(unclosed'}]},
+            {mode: DefaultOptionMode.REQUIRE, fileIncludes: '/**/*.less'},
+            {mode: DefaultOptionMode.BLOCK, fileIncludes: ['[unclosed']},
+            {mode: DefaultOptionMode.BLOCK, fileExceptions: [{regex: 'a', flags: 'not flags'}]},
+            {mode: DefaultOptionMode.REQUIRE, lineExceptions: ['[unclosed']},
+            {mode: DefaultOptionMode.REQUIRE, lineExceptions: [{literal: 5}]},
+            {mode: DefaultOptionMode.BLOCK, lineExceptions: [{literal: 'a', regex: 'a'}]},
+            {mode: DefaultOptionMode.REQUIRE, severity: 'fatal'},
+            {mode: DefaultOptionMode.REQUIRE, message: 5},
+            {mode: DefaultOptionMode.BLOCK, message: {block: ['message']}},
+            ...createSchemaInvalidOptions<RuleOptions>(rule),
         ] as Partial<RuleOptions>[]
     ).reduce((accum: DefaultRuleTest<RuleOptions>[], ruleOptions) => {
         const invalidOptionsTest = createInvalidOptionsTests(rule, ruleOptions, testInputs);
@@ -163,8 +438,178 @@ const ExemptTestVariations: Variation[] = [
         },
         descriptionSuffix: 'inside exception file with multiple files',
     },
+    {
+        fileName: '/outside/includes.less',
+        ruleOptions: {fileIncludes: ['/inside/**/*.less']},
+        descriptionSuffix: 'inside file not matched by file includes',
+    },
+    {
+        fileName: '/inside/excluded.less',
+        ruleOptions: {
+            fileIncludes: ['/inside/**/*.less'],
+            fileExceptions: ['/**/excluded.less'],
+        },
+        descriptionSuffix: 'inside included file matched by file exceptions',
+    },
+    {
+        fileName: '/regex/match.less',
+        ruleOptions: {fileExceptions: [{regex: '/REGEX/', flags: 'i'}]},
+        descriptionSuffix: 'inside file matched by regex',
+    },
+    {
+        fileName: '/literal[match].less',
+        ruleOptions: {fileExceptions: [{literal: '/literal[match].less'}]},
+        descriptionSuffix: 'inside file matched by literal',
+    },
+];
+
+/**
+ * Each form of exception pattern, used to verify that line exceptions work with all of them. Each
+ * converts text into a pattern which matches exactly that text.
+ */
+const exactMatchLineExceptionForms: {
+    name: string;
+    createPattern: (text: string) => ExceptionPattern;
+}[] = [
+    {name: 'globs', createPattern: createExactMatchGlob},
+    {name: 'literals', createPattern: (text) => ({literal: text})},
+    {
+        name: 'regular expressions',
+        createPattern: (text) => ({regex: `^${escapeStringForRegExp(text)}$`}),
+    },
 ];
 
+/**
+ * Converts a reject test case into an accept test case. Only the properties of TestCase are kept so
+ * that the reject case's expected warnings, positions, and fixed output aren't carried into a test
+ * which expects none of them.
+ */
+function toAcceptTestCase(rejectTestCase: Readonly<RejectTestCase>, description: string): TestCase {
+    return {
+        code: rejectTestCase.code,
+        description,
+        ...(rejectTestCase.skipThisTest ? {skipThisTest: true} : {}),
+        ...(rejectTestCase.onlyRunThisTest ? {onlyRunThisTest: true} : {}),
+    };
+}
+
+/** Resolves a test's ruleOptions into the options object that the rule will actually run with. */
+function getTestInputOptions<RuleOptions extends DefaultRuleOptions>(
+    testInput: Readonly<DefaultRuleTest<RuleOptions | DisabledDefaultRuleOptions>>,
+    rule: DefaultRule<RuleOptions, any>,
+): RuleOptions | DisabledDefaultRuleOptions {
+    return typeof testInput.ruleOptions === 'object'
+        ? testInput.ruleOptions
+        : testInput.ruleOptions
+        ? rule.defaultOptions
+        : {mode: DefaultOptionMode.OFF};
+}
+
+/**
+ * Converts the given text into a line exception glob which matches exactly that text.
+ * glob-to-regexp has no escape syntax, so glob syntax characters (and backslashes, which it would
+ * pass straight through into the RegExp) are replaced with the single character wildcard.
+ */
+function createExactMatchGlob(text: string): string {
+    return text.replace(/[*?[\]{}\\]/g, '?');
+}
+
+function loadSyntax(customSyntax: LinterOptions['customSyntax']): Syntax | undefined {
+    if (!customSyntax) {
+        return undefined;
+    }
+    return typeof customSyntax === 'string' ? require(customSyntax) : customSyntax;
+}
+
+/**
+ * Finds the text of every node in the given code, other than the root. Since whichever node a rule
+ * reports is one of these, a rule which respects its line exceptions must accept the code when
+ * given line exceptions matching all of these.
+ *
+ * @returns Undefined if the code can't be parsed, as there's no way to know what its nodes are.
+ */
+function findAllNodeTexts(
+    code: string,
+    linterOptions: Readonly<Partial<LinterOptions>> | undefined,
+): string[] | undefined {
+    let root: Root | Document;
+    try {
+        const syntax = loadSyntax(linterOptions?.customSyntax);
+        root = syntax?.parse ? syntax.parse(code) : parse(code);
+    } catch (error) {
+        return undefined;
+    }
+    // the root isn't included, as its text would also match every line of single line code
+    const nodeTexts = new Set<string>();
+    root.walk((node) => {
+        nodeTexts.add(node.toString());
+    });
+
+    return Array.from(nodeTexts);
+}
+
+/**
+ * Creates an "accept" test for each of the input's reject tests with line exceptions that match
+ * every node in the reject test's code. These verify that the rule actually checks its line exceptions.
+ *
+ * @param testInput The test input originally given in the rule's test. This is used to generate the
+ *   line exception tests.
+ */
+function createLineExceptionTestVariations<RuleOptions extends DefaultRuleOptions>(
+    testInput: Readonly<DefaultRuleTest<RuleOptions | DisabledDefaultRuleOptions>>,
+    rule: DefaultRule<RuleOptions, any>,
+): DefaultRuleTest<RuleOptions | DisabledDefaultRuleOptions>[] {
+    const inputOptions = getTestInputOptions(testInput, rule);
+    if (inputOptions.mode === DefaultOptionMode.OFF) {
+        return [];
+    }
+
+    return testInput.reject.reduce(
+        (accum: DefaultRuleTest<RuleOptions | DisabledDefaultRuleOptions>[], test) => {
+            const nodeTexts = findAllNodeTexts(test.code, testInput.linterOptions);
+            if (!nodeTexts) {
+                return accum;
+            }
+
+            return accum.concat(
+                exactMatchLineExceptionForms.map((form) => {
+                    const descriptionSuffix = `every node is matched by line exception ${form.name}`;
+
+                    return {
+                        ...testInput,
+                        ...(testInput.description
+                            ? {
+                                  description: getExceptionTestDescription(
+                                      testInput.description,
+                                      descriptionSuffix,
+                                  ),
+                              }
+                            : {}),
+                        ruleOptions: {
+                            ...inputOptions,
+                            lineExceptions: [
+                                ...(inputOptions.lineExceptions || []),
+                                ...nodeTexts.map(form.createPattern),
+                            ],
+                        },
+                        accept: [
+                            toAcceptTestCase(
+                                test,
+                                getExceptionTestDescription(
+                                    test.description || test.code,
+                                    descriptionSuffix,
+                                ),
+                            ),
+                        ],
+                        reject: [],
+                    };
+                }),
+            );
+        },
+        [],
+    );
+}
+
 /**
  * Creates a list of "accept" tests which are copied from the input's reject tests but with filename
  * linter options and rule option exceptions so that they should pass.
@@ -183,12 +628,7 @@ function createIgnoredTestVariations<RuleOptions extends DefaultRuleOptions>(
     }
 
     return ExemptTestVariations.map((variation) => {
-        const inputOptions: RuleOptions | DisabledDefaultRuleOptions | boolean =
-            typeof testInput.ruleOptions === 'object'
-                ? testInput.ruleOptions
-                : testInput.ruleOptions
-                ? rule.defaultOptions
-                : {mode: DefaultOptionMode.OFF};
+        const inputOptions = getTestInputOptions(testInput, rule);
         const combinedRuleOptions: boolean | RuleOptions | DisabledDefaultRuleOptions =
             inputOptions.mode === DefaultOptionMode.OFF
                 ? inputOptions
@@ -199,8 +639,14 @@ function createIgnoredTestVariations<RuleOptions extends DefaultRuleOptions>(
                   }
                 : variation.ruleOptions;
 
-        const customSyntax = variation.fileName?.endsWith('.less')
-            ? {customSyntax: 'postcss-less'}
+        // the test's own syntax is kept so that the variation parses its code the same way
+        const fileNameSyntax =
+            variation.fileName && !testInput.linterOptions?.customSyntax
+                ? getTestSyntaxForFileName(variation.fileName)
+                : undefined;
+        const fileNameCustomSyntax = fileNameSyntax && testSyntaxes[fileNameSyntax].customSyntax;
+        const customSyntax = fileNameCustomSyntax
+            ? {customSyntax: fileNameCustomSyntax}
             : undefined;
         const withFileName: Partial<Pick<LinterOptions, 'codeFilename' | 'customSyntax'>> =
             variation.fileName
@@ -233,15 +679,15 @@ function createIgnoredTestVariations<RuleOptions extends DefaultRuleOptions>(
             ...withDescription,
         };
 
-        input.accept = testInput.reject.map((test) => {
-            return {
-                ...test,
-                description: getExceptionTestDescription(
+        input.accept = testInput.reject.map((test) =>
+            toAcceptTestCase(
+                test,
+                getExceptionTestDescription(
                     test.description || test.code,
                     variation.descriptionSuffix,
                 ),
-            };
-        });
+            ),
+        );
 
         return input;
     });
@@ -265,30 +711,210 @@ function createIgnoredRejectionTests<RuleOptions extends DefaultRuleOptions>(
             accept: [],
         };
 
-        ignoredRejections.push(...createIgnoredTestVariations(allowedRejectionsTestInput, rule));
+        ignoredRejections.push(
+            ...createIgnoredTestVariations(allowedRejectionsTestInput, rule),
+            ...createLineExceptionTestVariations(test, rule),
+        );
     });
 
     return ignoredRejections;
 }
 
+function appendToDescription<T extends {description?: string | undefined}>(
+    withDescription: Readonly<T>,
+    suffix: string,
+): T {
+    return withDescription.description
+        ? {...withDescription, description: `${withDescription.description}${suffix}`}
+        : withDescription;
+}
+
+function convertTestCode(
+    code: string,
+    syntaxDetails: Readonly<TestSyntaxDetails>,
+): ConvertedTestCode | undefined {
+    return syntaxDetails.convertCode
+        ? syntaxDetails.convertCode(code)
+        : {code, convertPosition: (position) => position};
+}
+
+type OptionalPosition = {
+    line?: number | undefined;
+    column?: number | undefined;
+};
+
 /**
- * Used to test a Rule (but only a DefaultRule) with much less boilerplate than usual. In
- * particular, the rule name and plugin paths don't have to be repeated for every test, they only
- * need to be defined in one spot, at the top of the "inputs" object.
+ * Converts a position whose line or column may be missing, like the positions in WarningMessage.
+ * Missing parts stay missing.
  *
- * See src/test/rules/file-name-starts-with.test.ts in this repo for an example of how to use this.
+ * @returns Undefined when the position can't be converted.
+ */
+function convertOptionalPosition(
+    position: Readonly<OptionalPosition>,
+    convertPosition: ConvertedTestCode['convertPosition'],
+): OptionalPosition | undefined {
+    if (position.line == undefined && position.column == undefined) {
+        return {};
+    }
+    const converted = convertPosition({line: position.line ?? 1, column: position.column ?? 1});
+    return (
+        converted && {
+            ...(position.line == undefined ? {} : {line: converted.line}),
+            ...(position.column == undefined ? {} : {column: converted.column}),
+        }
+    );
+}
+
+function convertWarningPositions<WarningType extends Partial<WarningMessage>>(
+    warning: Readonly<WarningType>,
+    convertPosition: ConvertedTestCode['convertPosition'],
+): WarningType | undefined {
+    const start = convertOptionalPosition(
+        {line: warning.line, column: warning.column},
+        convertPosition,
+    );
+    const end = convertOptionalPosition(
+        {line: warning.endLine, column: warning.endColumn},
+        convertPosition,
+    );
+    if (!start || !end) {
+        return undefined;
+    }
+    return {
+        ...warning,
+        ...start,
+        ...(end.line == undefined ? {} : {endLine: end.line}),
+        ...(end.column == undefined ? {} : {endColumn: end.column}),
+    } as WarningType;
+}
+
+function convertAcceptTestCase(
+    testCase: Readonly<TestCase>,
+    syntaxDetails: Readonly<TestSyntaxDetails>,
+): TestCase | undefined {
+    const converted = convertTestCode(testCase.code, syntaxDetails);
+    return converted && {...testCase, code: converted.code};
+}
+
+/**
+ * Converts a reject test case's code, expected positions, and expected output into a syntax.
  *
- * @param inputs An object which contains all the needed information for the tests. See the
- *   documentation for the TestDefaultRuleInput type for more information on the expected properties
- *   for this type.
+ * @returns Undefined when any of them can't be converted.
  */
-export function testDefaultRule<
+function convertRejectTestCase(
+    testCase: Readonly<RejectTestCase>,
+    syntaxDetails: Readonly<TestSyntaxDetails>,
+): RejectTestCase | undefined {
+    const converted = convertTestCode(testCase.code, syntaxDetails);
+    if (!converted || (testCase.suggestions && !syntaxDetails.canStringify)) {
+        return undefined;
+    }
+    const rejectTestCase = convertWarningPositions(
+        {...testCase, code: converted.code},
+        converted.convertPosition,
+    );
+    const warnings = testCase.warnings?.map((warning) =>
+        convertWarningPositions(warning, converted.convertPosition),
+    );
+    const fixed =
+        testCase.fixed == undefined ? undefined : convertTestCode(testCase.fixed, syntaxDetails);
+    const suggestions = testCase.suggestions?.map((suggestion) => {
+        const output = convertTestCode(suggestion.output, syntaxDetails);
+        return output && {...suggestion, output: output.code};
+    });
+    if (
+        !rejectTestCase ||
+        warnings?.includes(undefined) ||
+        (testCase.fixed != undefined && !fixed) ||
+        suggestions?.includes(undefined)
+    ) {
+        return undefined;
+    }
+
+    return {
+        ...rejectTestCase,
+        ...(warnings ? {warnings: warnings as WarningMessage[]} : {}),
+        ...(fixed ? {fixed: fixed.code} : {}),
+        ...(suggestions ? {suggestions: suggestions as ExpectedSuggestion[]} : {}),
+    };
+}
+
+function createUnconvertibleTestCaseError(
+    test: Readonly<DefaultRuleTest<any>>,
+    testCase: Readonly<TestCase>,
+    syntax: TestSyntax,
+): Error {
+    const testCaseDescription = testCase.description ? ` ("${testCase.description}")` : '';
+    return new Error(
+        `Test case ${inspect(testCase.code)}${testCaseDescription} in "${
+            test.description || 'no description'
+        }" can't be converted into ${syntax} syntax. Leave ${syntax} out of the test's syntaxes.`,
+    );
+}
+
+/**
+ * Creates a copy of the given test for each syntax, which converts the test's code into that
+ * syntax, parses it with that syntax, and uses a file name with that syntax's extension.
+ *
+ * @throws When any of the test's cases can't be converted into one of the syntaxes.
+ */
+function createSyntaxTestVariations<RuleOptions extends DefaultRuleOptions>(
+    test: Readonly<DefaultRuleTest<RuleOptions>>,
+    syntaxes: ReadonlyArray<TestSyntax>,
+): DefaultRuleTest<RuleOptions>[] {
+    return syntaxes.map((syntax) => {
+        const syntaxDetails = testSyntaxes[syntax];
+        const {customSyntax, extension} = syntaxDetails;
+        const suffix = ` (${syntax} syntax)`;
+        // fixing compares the stringified code with the expected code, even in accept test cases
+        const canConvert = !test.fix || syntaxDetails.canStringify;
+        const convertTestCase = <TestCaseType extends TestCase>(
+            testCase: Readonly<TestCaseType>,
+            convert: (
+                testCase: Readonly<TestCaseType>,
+                syntaxDetails: Readonly<TestSyntaxDetails>,
+            ) => TestCaseType | undefined,
+        ): TestCaseType => {
+            const converted = canConvert && convert(testCase, syntaxDetails);
+            if (!converted) {
+                throw createUnconvertibleTestCaseError(test, testCase, syntax);
+            }
+            return appendToDescription<TestCaseType>(converted, suffix);
+        };
+        const codeFilename = test.linterOptions?.codeFilename;
+        // the test's own syntax is replaced, even when the new syntax is plain css
+        const linterOptions: Partial<LinterOptions> = {...test.linterOptions};
+        delete linterOptions.customSyntax;
+
+        return {
+            ...test,
+            description: `${test.description || 'no description'}${suffix}`,
+            accept: test.accept.map((testCase) => convertTestCase(testCase, convertAcceptTestCase)),
+            reject: test.reject.map((testCase) => convertTestCase(testCase, convertRejectTestCase)),
+            linterOptions: {
+                ...linterOptions,
+                ...(customSyntax ? {customSyntax} : {}),
+                codeFilename: codeFilename
+                    ? codeFilename.replace(/(\.[^./\\]+)?$/, `.${extension}`)
+                    : `/test.${extension}`,
+            },
+        };
+    });
+}
+
+/**
+ * Creates runner independent test cases for a DefaultRule: the given tests plus all the generated
+ * invalid options and exception tests. Use testDefaultRule to register them with a test runner directly.
+ *
+ * @param inputs See the documentation for the TestDefaultRuleInput type for more information on the
+ *   expected properties for this type.
+ */
+export function createDefaultRuleTestCases<
     MessagesType extends DefaultRuleMessagesType,
     RuleOptions extends DefaultRuleOptions,
 >(
-    // somehow only require Partial<RuleOptions> as input to the tests property of this
     inputs: Readonly<TestDefaultRuleInput<MessagesType, RuleOptions | DisabledDefaultRuleOptions>>,
-): void {
+): RuleTestCase[] {
     const paths: string[] = [];
 
     if (inputs.pluginPath) {
@@ -299,25 +925,37 @@ export function testDefaultRule<
         paths.push(...inputs.pluginPaths);
     }
 
-    // TODO: add line exception auto tests
-    const tests: DefaultRuleTest<RuleOptions | DisabledDefaultRuleOptions>[] =
+    if (inputs.pluginPack) {
+        paths.push(inputs.pluginPack.pluginPath);
+    }
+
+    const givenTests = inputs.tests.flatMap(({syntaxes = inputs.syntaxes, ...test}) =>
+        syntaxes ? createSyntaxTestVariations(test, syntaxes) : [test],
+    );
+
+    const generatedTests: DefaultRuleTest<RuleOptions | DisabledDefaultRuleOptions>[] =
         createDefaultRuleTests<MessagesType, RuleOptions | DisabledDefaultRuleOptions>(
             inputs.rule,
-            inputs.tests,
-        ).concat(createIgnoredRejectionTests(inputs.tests, inputs.rule), inputs.tests);
+            inputs.tests.map(({syntaxes, ...test}) => test),
+        ).concat(createIgnoredRejectionTests(givenTests, inputs.rule));
 
-    tests.forEach((test) =>
-        testRule({
+    return [
+        ...generatedTests.map((test) => ({test, snapshot: undefined})),
+        ...givenTests.map((test) => ({test, snapshot: inputs.snapshot})),
+    ].flatMap(({test, snapshot}) =>
+        createRuleTestCases({
             ...test,
+            snapshot,
             ruleName: inputs.rule.ruleName,
+            // without any plugin paths, the rule is registered in memory
+            rule: inputs.rule,
             linterOptions: {
                 ...test.linterOptions,
                 config: {
-                    // a plugin must be supplied so that stylelint can find the rule you want to test
                     // trying to use the configBasedir property in here instead of supplying a complete
                     // relative path to index.js does NOT work. The stylelint api doesn't seem to even
                     // read the configBasedir property.
-                    plugins: paths,
+                    ...(paths.length ? {plugins: paths} : {}),
                     // if the test input includes plugins, they will override the above plugins property
                     ...test.linterOptions?.config,
                 },
@@ -325,3 +963,26 @@ export function testDefaultRule<
         }),
     );
 }
+
+/**
+ * Used to test a Rule (but only a DefaultRule) with much less boilerplate than usual. In
+ * particular, the rule name and plugin paths don't have to be repeated for every test, they only
+ * need to be defined in one spot, at the top of the "inputs" object.
+ *
+ * See src/test/rules/file-name-starts-with.test.ts in this repo for an example of how to use this.
+ *
+ * @param inputs An object which contains all the needed information for the tests. See the
+ *   documentation for the TestDefaultRuleInput type for more information on the expected properties
+ *   for this type.
+ * @param adapter Registers the tests with a test runner. Defaults to Jest.
+ */
+export function testDefaultRule<
+    MessagesType extends DefaultRuleMessagesType,
+    RuleOptions extends DefaultRuleOptions,
+>(
+    // somehow only require Partial<RuleOptions> as input to the tests property of this
+    inputs: Readonly<TestDefaultRuleInput<MessagesType, RuleOptions | DisabledDefaultRuleOptions>>,
+    adapter: TestRunnerAdapter = jestAdapter,
+): void {
+    adapter(createDefaultRuleTestCases(inputs));
+}
@@ -1,8 +1,30 @@
+import {escapeStringForRegExp} from 'augment-vir';
 import {toPosixPath} from 'augment-vir/dist/node-only';
 import globToRegExp from 'glob-to-regexp';
 import {Node, Root} from 'postcss';
 import {PostcssResult} from 'stylelint';
-import {BaseMessagesType, createRule, ReportCallback, Rule, RuleContext} from './rule';
+import {countIgnoredReport, findIgnoredLineRanges, isLineIgnored} from './ignore-comments';
+import {
+    describeReceivedValue,
+    findOptionSchemaIssues,
+    formatOptionPath,
+    formatOptionSchemaIssue,
+    ObjectOptionSchema,
+    OptionSchema,
+    OptionSchemaIssue,
+} from './option-schema';
+import {ProjectContext, ProjectContextOptions} from './project-context';
+import {
+    BaseMessagesType,
+    createRule,
+    ReportCallback,
+    Rule,
+    RuleContext,
+    RuleMetadata,
+    RuleViolation,
+} from './rule';
+import {RuleHelpers} from './syntax-helpers';
+import {getViolationRange, getViolationText} from './violation-range';
 
 /**
  * The required base options type for a DefaultRule. An object matching this type is what must be
@@ -11,17 +33,59 @@ import {BaseMessagesType, createRule, ReportCallback, Rule, RuleContext} from '.
 export type DefaultRuleOptions = {
     mode: DefaultOptionMode;
     /**
-     * Strings that will get converted into RegExps using glob syntax. Any files that match these
-     * will be automatically ignored.
+     * Patterns that will get converted into RegExps (see ExceptionPattern). Any files that match
+     * these will be automatically ignored.
      */
-    fileExceptions?: string[] | undefined;
+    fileExceptions?: ExceptionPattern[] | undefined;
     /**
-     * Strings that will get converted into RegExps using glob syntax. Rules will have to manually
-     * check each line against these using doesMatchLineExceptions.
+     * Patterns that will get converted into RegExps (see ExceptionPattern). When any are given,
+     * only files that match at least one of these are linted. fileExceptions still apply to included files.
      */
-    lineExceptions?: string[] | undefined;
+    fileIncludes?: ExceptionPattern[] | undefined;
+    /**
+     * Patterns that will get converted into RegExps (see ExceptionPattern). Reports matching these
+     * are automatically dropped, unless the rule opts into checking them manually (using
+     * doesMatchLineExceptions) with createDefaultRule's manualLineExceptions input.
+     */
+    lineExceptions?: ExceptionPattern[] | undefined;
+    /**
+     * Overrides the severity of the rule's reports. When this is not provided, the severity from
+     * the stylelint config is used.
+     */
+    severity?: DefaultRuleSeverity | undefined;
+    /**
+     * Overrides the message of the rule's reports. This can be a single string for all reports or
+     * an object with a separate message for each mode.
+     */
+    message?: string | DefaultRuleModeMessages | undefined;
 };
 
+/**
+ * A single file or line exception. Plain strings use glob syntax and must match the whole text.
+ * Regex objects are passed straight to the RegExp constructor, so they match anywhere unless
+ * anchored. Literal objects must match the whole text exactly.
+ */
+export type ExceptionPattern = string | RegexExceptionPattern | LiteralExceptionPattern;
+
+/** An exception pattern written as a regular expression, such as {regex: '^@import', flags: 'i'}. */
+export type RegexExceptionPattern = {
+    regex: string;
+    flags?: string | undefined;
+};
+
+/** An exception pattern which matches only the exact given text, with no special characters. */
+export type LiteralExceptionPattern = {
+    literal: string;
+};
+
+/** Severities which can be assigned to a DefaultRule's reports through its options. */
+export type DefaultRuleSeverity = 'warning' | 'error';
+
+/** Report message overrides for each active DefaultOptionMode. */
+export type DefaultRuleModeMessages = Partial<
+    Record<Exclude<DefaultOptionMode, DefaultOptionMode.OFF>, string>
+>;
+
 /**
  * When the mod is off, no other properties are needed. This is used in place of even types that
  * extend DefaultRuleOptions so that the sub type properties can be ignored.
@@ -42,6 +106,14 @@ export enum DefaultOptionMode {
 
 export type DefaultRuleMessagesType = typeof invalidOptionsMessages;
 
+/**
+ * Schemas for every property that a DefaultRuleOptions subtype adds on top of DefaultRuleOptions.
+ * Every added property must be described so that the whole options object can be validated.
+ */
+export type DefaultRuleOptionsSchema<RuleOptions extends DefaultRuleOptions> = {
+    [Key in Exclude<keyof RuleOptions, keyof DefaultRuleOptions>]-?: OptionSchema;
+};
+
 /**
  * A default rule that can be directly exported to stylelint as a plugin, is extremely easy to test,
  * and has with opinions and extra type checking for rule options.
@@ -49,12 +121,17 @@ export type DefaultRuleMessagesType = typeof invalidOptionsMessages;
 export type DefaultRule<
     OptionsType extends DefaultRuleOptions,
     MessagesType extends DefaultRuleMessagesType,
-> = Rule<MessagesType> & {defaultOptions: OptionsType};
+> = Rule<MessagesType> & {
+    defaultOptions: OptionsType;
+    /** The schema which the rule's options objects are validated against. */
+    optionsSchema: ObjectOptionSchema;
+};
 
 export type ParsedException = RegExp | Error;
 
 export type ParsedExceptions = {
     parsedFileExceptions: ParsedException[];
+    parsedFileIncludes: ParsedException[];
     parsedLineExceptions: ParsedException[];
 };
 
@@ -70,19 +147,75 @@ export function isValidDefaultOptionsObject(input?: any): input is DefaultRuleOp
     if (typeof input !== 'object') {
         return false;
     }
-    // assumption for type checking below
-    const validatingInput = input as DefaultRuleOptions;
+    return !findDefaultRuleOptionsIssues(input, createDefaultRuleOptionsSchema()).length;
+}
 
-    if (!isDefaultOptionMode(validatingInput.mode)) {
-        return false;
-    }
-    if (!isValidDefaultOptionsExceptions(validatingInput.fileExceptions)) {
-        return false;
-    }
-    if (!isValidDefaultOptionsExceptions(validatingInput.lineExceptions)) {
-        return false;
+/**
+ * Finds all the reasons that the given input is not a valid options object for a DefaultRule. This
+ * includes both options that don't match the schema and exception patterns that fail to parse.
+ *
+ * @param input The options object to check
+ * @param optionsSchema The schema for the rule's options, usually a DefaultRule's optionsSchema property
+ * @returns An issue for each problem found. Empty when the input is valid.
+ */
+export function findDefaultRuleOptionsIssues(
+    input: unknown,
+    optionsSchema: Readonly<ObjectOptionSchema>,
+): OptionSchemaIssue[] {
+    const schemaIssues = findOptionSchemaIssues(input, optionsSchema);
+    // exception patterns can only be parsed once they're known to have the right shape
+    if (schemaIssues.length) {
+        return schemaIssues;
     }
-    return true;
+    const options = input as Partial<DefaultRuleOptions>;
+
+    return [
+        ...findExceptionPatternIssues(options.fileExceptions, 'fileExceptions', true),
+        ...findExceptionPatternIssues(options.fileIncludes, 'fileIncludes', true),
+        ...findExceptionPatternIssues(options.lineExceptions, 'lineExceptions', false),
+    ];
+}
+
+function findExceptionPatternIssues(
+    exceptions: ReadonlyArray<ExceptionPattern> | undefined,
+    propertyName: keyof DefaultRuleOptions,
+    globstar: boolean,
+): OptionSchemaIssue[] {
+    return (exceptions || []).reduce((accum: OptionSchemaIssue[], exception, index) => {
+        const parsed = parseExceptionPattern(exception, globstar);
+        if (parsed instanceof Error) {
+            accum.push({
+                path: formatOptionPath([
+                    propertyName,
+                    index,
+                ]),
+                expected: 'a valid exception pattern',
+                received: describeReceivedValue(exception),
+                hint: parsed.message,
+            });
+        }
+        return accum;
+    }, []);
+}
+
+/**
+ * Creates the schema which a DefaultRule's options object is validated against.
+ *
+ * @param extraPropertiesSchema Schemas for the properties which a DefaultRuleOptions subtype adds.
+ *   When this is not provided, properties other than those of DefaultRuleOptions are not validated at all.
+ * @returns An object schema covering both DefaultRuleOptions and the given extra properties
+ */
+export function createDefaultRuleOptionsSchema<RuleOptions extends DefaultRuleOptions>(
+    extraPropertiesSchema?: DefaultRuleOptionsSchema<RuleOptions>,
+): ObjectOptionSchema {
+    return {
+        type: 'object',
+        properties: {
+            ...extraPropertiesSchema,
+            ...defaultRuleOptionsSchemaProperties,
+        },
+        allowUnknownProperties: !extraPropertiesSchema,
+    };
 }
 
 /**
@@ -97,26 +230,70 @@ export function doesMatchLineExceptions(node: Node, exceptionRegExps: ExceptionR
     return exceptionRegExps.lineExceptions.some((exception) => node.toString().match(exception));
 }
 
+function getViolationLine(violation: Readonly<RuleViolation>): number | undefined {
+    // the same line that the violation is reported on
+    return (
+        violation.line ??
+        getViolationRange(violation)?.start.line ??
+        violation.node.source?.start?.line
+    );
+}
+
+/**
+ * Figures out if the given violation matches any of the line exceptions. This checks the
+ * violation's node, the text it's reported on (its word or index range), and the trimmed source
+ * line that the violation is on.
+ *
+ * @param violation The violation which is about to be reported
+ * @param exceptionRegExps The ExceptionRegExps obtained from the ruleCallback execution info
+ * @returns True if any exceptions match the violation, false otherwise
+ */
+export function doesViolationMatchLineExceptions(
+    violation: Readonly<RuleViolation>,
+    exceptionRegExps: ExceptionRegExps,
+): boolean {
+    if (!exceptionRegExps.lineExceptions.length) {
+        return false;
+    }
+    if (doesMatchLineExceptions(violation.node, exceptionRegExps)) {
+        return true;
+    }
+
+    const lineNumber = getViolationLine(violation);
+    const sourceLine =
+        lineNumber == undefined
+            ? undefined
+            : violation.node.root().source?.input.css.split(/\r?\n/)[lineNumber - 1]?.trim();
+
+    return [
+        getViolationText(violation),
+        sourceLine,
+    ].some(
+        (text) =>
+            text != undefined &&
+            exceptionRegExps.lineExceptions.some((exception) => text.match(exception)),
+    );
+}
+
 /**
  * Checks if the given variable is a valid object for the fileExceptions and lineExceptions
  * properties of the DefaultRuleOptions type. In this case, valid means that they are either
  * undefined (which is considered valid because it is possible to not even pass in anything for
- * these properties) or an array of strings.
+ * these properties) or an array of ExceptionPatterns which all parse successfully.
  *
  * @param input The variable to check as a valid match for fileExceptions and lineExceptions
- * @returns True if input is an array of strings or undefined, otherwise false
+ * @returns True if input is an array of valid ExceptionPatterns or undefined, otherwise false
  */
-export function isValidDefaultOptionsExceptions(input?: any): input is string[] | undefined {
+export function isValidDefaultOptionsExceptions(
+    input?: any,
+): input is ExceptionPattern[] | undefined {
     if (!input) {
         return true;
     }
-    if (!Array.isArray(input)) {
+    if (findOptionSchemaIssues(input, exceptionPatternsSchema).length) {
         return false;
     }
-    if (input.some((value) => typeof value !== 'string')) {
-        return false;
-    }
-    return true;
+    return !findExceptionPatternIssues(input, 'lineExceptions', false).length;
 }
 
 /**
@@ -132,12 +309,103 @@ export function isDefaultOptionMode(input?: any): input is DefaultOptionMode {
     return Object.values(DefaultOptionMode).includes(input as any);
 }
 
+const exceptionPatternsSchema: OptionSchema = {
+    type: 'array',
+    optional: true,
+    items: {
+        type: 'oneOf',
+        options: [
+            {type: 'string'},
+            {
+                type: 'object',
+                properties: {
+                    regex: {type: 'string'},
+                    flags: {type: 'string', optional: true},
+                },
+            },
+            {type: 'object', properties: {literal: {type: 'string'}}},
+        ],
+    },
+};
+
+const defaultRuleOptionsSchemaProperties: Readonly<Record<keyof DefaultRuleOptions, OptionSchema>> =
+    {
+        mode: {
+            type: 'string',
+            enum: Object.values(DefaultOptionMode),
+            description: 'Whether the rule is off, requires its check, or blocks it.',
+        },
+        fileExceptions: {
+            ...exceptionPatternsSchema,
+            description: 'Files which the rule skips.',
+        },
+        fileIncludes: {
+            ...exceptionPatternsSchema,
+            description: 'When given, the rule only lints files matching one of these.',
+        },
+        lineExceptions: {
+            ...exceptionPatternsSchema,
+            description: 'Reports on lines or nodes matching these are dropped.',
+        },
+        severity: {
+            description: 'Overrides the severity of the rule.',
+            type: 'string',
+            enum: [
+                'warning',
+                'error',
+            ],
+            optional: true,
+        },
+        message: {
+            description: 'Overrides the message of the rule, either for all modes or per mode.',
+            type: 'oneOf',
+            optional: true,
+            options: [
+                {type: 'string'},
+                {
+                    type: 'object',
+                    properties: {
+                        [DefaultOptionMode.REQUIRE]: {type: 'string', optional: true},
+                        [DefaultOptionMode.BLOCK]: {type: 'string', optional: true},
+                    },
+                },
+            ],
+        },
+    };
+
 const invalidOptionsMessages = {
-    invalidOptions(option: any) {
-        return `Invalid options object:\n${option ? JSON.stringify(option, null, 4) : option}`;
+    invalidOptions(issue: OptionSchemaIssue) {
+        return `Invalid option: ${formatOptionSchemaIssue(issue)}`;
     },
 };
 
+/**
+ * Creates a function which tracks which invalid options have already been reported. Reports are
+ * tracked per stylelint config object so that files linted with the same resolved config (such as
+ * all files in a single stylelint.lint call given the config option) only report invalid options
+ * once rather than once per file.
+ */
+function createInvalidOptionsReportTracker() {
+    const reportedOptions = new WeakMap<object, Set<string>>();
+
+    /** @returns True if the given options have not been reported yet for the result's config. */
+    return (result: PostcssResult, ruleOptions: unknown): boolean => {
+        const config = result.stylelint?.config;
+        if (!config) {
+            return true;
+        }
+        const serializedOptions = JSON.stringify(ruleOptions);
+        const reportedForConfig = reportedOptions.get(config) || new Set<string>();
+        reportedOptions.set(config, reportedForConfig);
+
+        if (reportedForConfig.has(serializedOptions)) {
+            return false;
+        }
+        reportedForConfig.add(serializedOptions);
+        return true;
+    };
+}
+
 function shouldBeExempt(input?: string, exceptions?: (RegExp | Error)[]): boolean {
     if (!exceptions || !input) {
         return false;
@@ -150,24 +418,39 @@ function shouldBeExempt(input?: string, exceptions?: (RegExp | Error)[]): boolea
     });
 }
 
-function createExceptionGlobRegExpArray(exceptions?: any, globstar = true): (RegExp | Error)[] {
+/**
+ * Converts a single exception pattern into a RegExp.
+ *
+ * @returns An Error, rather than throwing it, when the pattern can't be parsed. This indicates to
+ *   later processes that an error occurred.
+ */
+function parseExceptionPattern(exception: unknown, globstar: boolean): ParsedException {
+    try {
+        if (typeof exception === 'string') {
+            return globToRegExp(exception, {globstar, extended: true});
+        } else if (exception && typeof exception === 'object' && 'regex' in exception) {
+            const {regex, flags} = exception as RegexExceptionPattern;
+            return new RegExp(regex, flags);
+        } else if (exception && typeof exception === 'object' && 'literal' in exception) {
+            const {literal} = exception as LiteralExceptionPattern;
+            if (typeof literal !== 'string') {
+                throw new TypeError('Expected a string');
+            }
+            return new RegExp(`^${escapeStringForRegExp(literal)}$`);
+        }
+        throw new TypeError('Expected a string, regex object, or literal object');
+    } catch (error) {
+        return error instanceof Error ? error : new Error(String(error));
+    }
+}
+
+function createExceptionRegExpArray(exceptions?: any, globstar = true): ParsedException[] {
     // verify in case bad input
     if (!exceptions || !Array.isArray(exceptions)) {
         return [];
     }
 
-    return exceptions.map((exception) => {
-        try {
-            return globToRegExp(exception, {globstar, extended: true});
-        } catch (error) {
-            if (error instanceof TypeError) {
-                // this indicates to later processes that an error occurred
-                return error;
-            } else {
-                throw error;
-            }
-        }
-    });
+    return exceptions.map((exception) => parseExceptionPattern(exception, globstar));
 }
 
 function shouldRunDefaultRule(
@@ -178,30 +461,50 @@ function shouldRunDefaultRule(
         root: Node;
         report: ReportCallback;
         exceptionRegExps: (RegExp | Error)[] | undefined;
+        includeRegExps: (RegExp | Error)[] | undefined;
+        optionsSchema: ObjectOptionSchema;
+        shouldReportInvalidOptions: ReturnType<typeof createInvalidOptionsReportTracker>;
     },
 ): ruleOptions is DefaultRuleOptions {
     if (!ruleOptions) {
         return false;
     } else if (ruleOptions.mode === DefaultOptionMode.OFF) {
         return false;
-    } else if (!isValidDefaultOptionsObject(ruleOptions)) {
-        inputs.report({
-            message: messages.invalidOptions(ruleOptions),
-            node: inputs.root,
-        });
+    }
+
+    const issues = findDefaultRuleOptionsIssues(ruleOptions, inputs.optionsSchema);
+    if (issues.length) {
+        if (inputs.shouldReportInvalidOptions(inputs.result, ruleOptions)) {
+            issues.forEach((issue) => {
+                inputs.report({
+                    message: messages.invalidOptions(issue),
+                    node: inputs.root,
+                });
+            });
+        }
         return false;
+    }
+
+    const filePath = inputs.result.opts?.from;
+    if (!filePath) {
+        return true;
     } else if (
-        inputs.result.opts?.from &&
-        (shouldBeExempt(inputs.result.opts?.from, inputs.exceptionRegExps) ||
-            shouldBeExempt(toPosixPath(inputs.result.opts?.from), inputs.exceptionRegExps))
+        inputs.includeRegExps?.length &&
+        !doesFilePathMatch(filePath, inputs.includeRegExps)
     ) {
         return false;
+    } else if (doesFilePathMatch(filePath, inputs.exceptionRegExps)) {
+        return false;
     }
 
     return true;
 }
 
-/** RegExps parsed from the user's string exceptions */
+function doesFilePathMatch(filePath: string, regExps: (RegExp | Error)[] | undefined): boolean {
+    return shouldBeExempt(filePath, regExps) || shouldBeExempt(toPosixPath(filePath), regExps);
+}
+
+/** RegExps parsed from the user's exception patterns */
 export type ExceptionRegExps = {
     /** Exceptions for individual lines */
     lineExceptions: RegExp[];
@@ -211,6 +514,11 @@ export type ExceptionRegExps = {
      * some reason.
      */
     fileNameExceptions: RegExp[];
+    /**
+     * Inclusions for whole file names and paths. Like fileNameExceptions, this is already matched
+     * against automatically by createDefaultRule.
+     */
+    fileNameIncludes: RegExp[];
 };
 
 /**
@@ -228,8 +536,12 @@ export type DefaultRuleExecutionInfo<RuleOptions extends DefaultRuleOptions = De
         root: Root;
         /** Result output from postcss. The file name can be reached here through result.opts?.from */
         result: PostcssResult;
-        /** RegExps parsed from the user's string exceptions */
+        /** RegExps parsed from the user's exception patterns */
         exceptionRegExps: ExceptionRegExps;
+        /** Parsers for imports, declaration values, and selectors which include source ranges. */
+        helpers: RuleHelpers;
+        /** Access to the files imported by the linted file and a cache shared across files. */
+        project: ProjectContext;
     };
 
 /**
@@ -261,12 +573,22 @@ export type DefaultRuleCallback<
     executionInfo: DefaultRuleExecutionInfo<RuleOptions>,
 ) => void | PromiseLike<void>;
 
+function getMessageOverride(ruleOptions: Readonly<DefaultRuleOptions>): string | undefined {
+    if (typeof ruleOptions.message === 'string') {
+        return ruleOptions.message;
+    } else if (ruleOptions.mode === DefaultOptionMode.OFF) {
+        return undefined;
+    }
+    return ruleOptions.message?.[ruleOptions.mode];
+}
+
 function optionsIsDisabled<RuleOptions extends DefaultRuleOptions>(
     input?: DisabledDefaultRuleOptions | RuleOptions,
 ): input is DisabledDefaultRuleOptions {
     if (
         input &&
         !input.hasOwnProperty('fileExceptions') &&
+        !input.hasOwnProperty('fileIncludes') &&
         !input.hasOwnProperty('lineExceptions')
     ) {
         return true;
@@ -286,10 +608,54 @@ function optionsIsDisabled<RuleOptions extends DefaultRuleOptions>(
  *   property." invalidVisibilityValue: (value) => `Don't use visibility with value "${value}"` }
  * @param defaultOptions An object which will be passed to ruleCallback as the user's supplied
  *   options if the user actually supplied just the boolean value of true.
+ * @param optionsSchema Schemas for every property that RuleOptions adds to DefaultRuleOptions. When
+ *   this is provided, the whole options object is validated and ruleCallback receives fully typed
+ *   RuleOptions. Example: { startWith: {type: 'string', optional: true} }
+ * @param meta Optional information about the rule. See RuleMetadata.
+ * @param timeout Optional number of milliseconds that an async ruleCallback may take. See createRule.
+ * @param project Optional configuration for the project context. See ProjectContextOptions.
  * @param ruleCallback The actual rule. This is what stylelint will call when linting occurs with
  *   this rule loaded and enabled. This is a simplified and flattened version of stylelint's default
  *   "Plugin" type in order to reduce boilerplate and code duplication.
  */
+export function createDefaultRule<
+    MessagesType extends BaseMessagesType,
+    RuleOptions extends DefaultRuleOptions = DefaultRuleOptions,
+>(defaultRuleInputs: {
+    ruleName: string;
+    messages: MessagesType;
+    defaultOptions: RuleOptions;
+    optionsSchema: DefaultRuleOptionsSchema<RuleOptions>;
+    manualLineExceptions?: boolean | undefined;
+    meta?: RuleMetadata | undefined;
+    timeout?: number | undefined;
+    project?: ProjectContextOptions | undefined;
+    ruleCallback: DefaultRuleCallback<MessagesType, RuleOptions>;
+}): DefaultRule<RuleOptions, MessagesType & DefaultRuleMessagesType>;
+export function createDefaultRule<
+    MessagesType extends BaseMessagesType,
+    RuleOptions extends DefaultRuleOptions = DefaultRuleOptions,
+>(defaultRuleInputs: {
+    ruleName: string;
+    messages: MessagesType;
+    defaultOptions: RuleOptions;
+    optionsSchema?: undefined;
+    manualLineExceptions?: boolean | undefined;
+    meta?: RuleMetadata | undefined;
+    timeout?: number | undefined;
+    project?: ProjectContextOptions | undefined;
+    ruleCallback: DefaultRuleCallback<
+        MessagesType,
+        /**
+         * Partial is used here because the user might not input all the fields needed for the
+         * subtype of DefaultRuleOptions (RuleOptions, which extends DefaultRuleOptions) and,
+         * without an optionsSchema, we can't validate that subtype here because we can't know all
+         * the properties. We CAN, however, and do validate that DefaultRuleOptions is at least a
+         * valid instance of DefaultRuleOptions.
+         */
+        Partial<RuleOptions> & DefaultRuleOptions
+    >;
+}): DefaultRule<RuleOptions, MessagesType & DefaultRuleMessagesType>;
 export function createDefaultRule<
     /**
      * MessagesType
@@ -318,18 +684,27 @@ export function createDefaultRule<
     ruleName: string;
     messages: MessagesType;
     defaultOptions: RuleOptions;
-    ruleCallback: DefaultRuleCallback<
-        MessagesType,
-        /**
-         * Partial is used here because the user might not input all the fields needed for the
-         * subtype of DefaultRuleOptions (RuleOptions, which extends DefaultRuleOptions) and we
-         * can't validate that subtype here because we can't know all the properties. We CAN,
-         * however, and do validate that DefaultRuleOptions is at least a valid instance of
-         * DefaultRuleOptions.
-         */
-        Partial<RuleOptions> & DefaultRuleOptions
-    >;
+    optionsSchema?: DefaultRuleOptionsSchema<RuleOptions> | undefined;
+    manualLineExceptions?: boolean | undefined;
+    meta?: RuleMetadata | undefined;
+    timeout?: number | undefined;
+    project?: ProjectContextOptions | undefined;
+    ruleCallback: DefaultRuleCallback<MessagesType, RuleOptions>;
 }): DefaultRule<RuleOptions, MessagesType & DefaultRuleMessagesType> {
+    const optionsSchema = createDefaultRuleOptionsSchema(defaultRuleInputs.optionsSchema);
+    const defaultOptionsIssues = findDefaultRuleOptionsIssues(
+        defaultRuleInputs.defaultOptions,
+        optionsSchema,
+    );
+    if (defaultOptionsIssues.length) {
+        throw new Error(
+            `Invalid default options for "${defaultRuleInputs.ruleName}": ${defaultOptionsIssues
+                .map(formatOptionSchemaIssue)
+                .join(', ')}`,
+        );
+    }
+    const shouldReportInvalidOptions = createInvalidOptionsReportTracker();
+
     const messages = {...defaultRuleInputs.messages, ...invalidOptionsMessages};
 
     const rule = createRule<
@@ -340,6 +715,9 @@ export function createDefaultRule<
     >({
         ruleName: defaultRuleInputs.ruleName,
         messages,
+        meta: defaultRuleInputs.meta,
+        timeout: defaultRuleInputs.timeout,
+        project: defaultRuleInputs.project,
         ruleCallback(report, messages, ruleExecutionInfo) {
             const options = ruleExecutionInfo.primaryOption;
 
@@ -353,6 +731,9 @@ export function createDefaultRule<
                         report,
                         exceptionRegExps:
                             ruleExecutionInfo.optionsCallbackResult.parsedFileExceptions,
+                        includeRegExps: ruleExecutionInfo.optionsCallbackResult.parsedFileIncludes,
+                        optionsSchema,
+                        shouldReportInvalidOptions,
                     }))
             ) {
                 return;
@@ -366,6 +747,8 @@ export function createDefaultRule<
                 root: ruleExecutionInfo.root,
                 result: ruleExecutionInfo.result,
                 context: ruleExecutionInfo.context,
+                helpers: ruleExecutionInfo.helpers,
+                project: ruleExecutionInfo.project,
                 exceptionRegExps: {
                     lineExceptions:
                         ruleExecutionInfo.optionsCallbackResult.parsedLineExceptions.filter(
@@ -375,25 +758,66 @@ export function createDefaultRule<
                         ruleExecutionInfo.optionsCallbackResult.parsedFileExceptions.filter(
                             (exception): exception is RegExp => exception instanceof RegExp,
                         ),
+                    fileNameIncludes:
+                        ruleExecutionInfo.optionsCallbackResult.parsedFileIncludes.filter(
+                            (include): include is RegExp => include instanceof RegExp,
+                        ),
                 },
             };
 
-            return defaultRuleInputs.ruleCallback(report, messages, defaultRuleExecutionInfo);
+            const ruleName = defaultRuleInputs.ruleName;
+            const ignoredLineRanges = findIgnoredLineRanges(ruleExecutionInfo.root, ruleName);
+            const messageOverride = getMessageOverride(ruleOptions);
+            // keep the rule name suffix which utils.ruleMessages adds to every other message
+            const formattedMessageOverride = messageOverride && `${messageOverride} (${ruleName})`;
+
+            if (ruleOptions.severity && ruleExecutionInfo.result.stylelint) {
+                // utils.report reads the severity for each report from here
+                ruleExecutionInfo.result.stylelint.ruleSeverities[ruleName] = ruleOptions.severity;
+            }
+
+            // Dropped violations also skip their fix. Rules which fix nodes directly, rather than
+            // through the violation's fix property, must still check lineExceptions and ignore
+            // comments themselves before fixing.
+            const defaultRuleReport: ReportCallback = (violation) => {
+                if (isLineIgnored(getViolationLine(violation), ignoredLineRanges)) {
+                    countIgnoredReport(ruleExecutionInfo.result, ruleName, 'ignoreComments');
+                } else if (
+                    !defaultRuleInputs.manualLineExceptions &&
+                    doesViolationMatchLineExceptions(
+                        violation,
+                        defaultRuleExecutionInfo.exceptionRegExps,
+                    )
+                ) {
+                    countIgnoredReport(ruleExecutionInfo.result, ruleName, 'lineExceptions');
+                } else {
+                    report(
+                        formattedMessageOverride
+                            ? {...violation, message: formattedMessageOverride}
+                            : violation,
+                    );
+                }
+            };
+
+            return defaultRuleInputs.ruleCallback(
+                defaultRuleReport,
+                messages,
+                defaultRuleExecutionInfo,
+            );
         },
         optionsCallback(options) {
             if (typeof options === 'boolean' || optionsIsDisabled(options)) {
                 return {
                     parsedFileExceptions: [],
+                    parsedFileIncludes: [],
                     parsedLineExceptions: [],
                 };
             }
 
             return {
-                parsedFileExceptions: createExceptionGlobRegExpArray(options?.fileExceptions),
-                parsedLineExceptions: createExceptionGlobRegExpArray(
-                    options?.lineExceptions,
-                    false,
-                ),
+                parsedFileExceptions: createExceptionRegExpArray(options?.fileExceptions),
+                parsedFileIncludes: createExceptionRegExpArray(options?.fileIncludes),
+                parsedLineExceptions: createExceptionRegExpArray(options?.lineExceptions, false),
             };
         },
     });
@@ -401,5 +825,6 @@ export function createDefaultRule<
     return {
         ...rule,
         defaultOptions: defaultRuleInputs.defaultOptions,
+        optionsSchema,
     };
 }
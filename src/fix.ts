@@ -0,0 +1,149 @@
+import {Node} from 'postcss';
+
+/** Node properties that can be edited with a replace-text RuleEdit. */
+export type EditableTextProperty = 'prop' | 'value' | 'params' | 'selector' | 'name' | 'text';
+
+/** Removes the node from its parent. */
+export type RemoveNodeEdit = {
+    type: 'remove-node';
+    node: Node;
+};
+
+/** Replaces the node with one or more other nodes. */
+export type ReplaceNodeEdit = {
+    type: 'replace-node';
+    node: Node;
+    replacement: Node | Node[];
+};
+
+/**
+ * Replaces the characters from start (inclusive) to end (exclusive) in one of the node's string
+ * properties with the given text. For example, to replace "old" in the value "1px old red": {type:
+ * 'replace-text', node: decl, property: 'value', start: 4, end: 7, text: 'new'}.
+ */
+export type ReplaceTextEdit = {
+    type: 'replace-text';
+    node: Node;
+    property: EditableTextProperty;
+    start: number;
+    end: number;
+    text: string;
+};
+
+/** A declarative change to the postcss tree. */
+export type RuleEdit = RemoveNodeEdit | ReplaceNodeEdit | ReplaceTextEdit;
+
+/**
+ * A fix attached to a RuleViolation. This is either a list of declarative edits, which can be
+ * checked for conflicts with other fixes, or a function which mutates nodes itself.
+ */
+export type RuleFix = RuleEdit[] | (() => void);
+
+type QueuedFix<ViolationType> = {
+    fix: RuleFix;
+    violation: ViolationType;
+};
+
+function isNodeInside(node: Node, possibleAncestor: Node): boolean {
+    let current: Node | undefined = node;
+    while (current) {
+        if (current === possibleAncestor) {
+            return true;
+        }
+        current = current.parent as Node | undefined;
+    }
+    return false;
+}
+
+function doEditsConflict(first: RuleEdit, second: RuleEdit): boolean {
+    if (first.type === 'replace-text' && second.type === 'replace-text') {
+        return (
+            first.node === second.node &&
+            first.property === second.property &&
+            first.start < second.end &&
+            second.start < first.end
+        );
+    }
+    // at least one of the edits changes a whole node, so any overlap in nodes is a conflict
+    return isNodeInside(first.node, second.node) || isNodeInside(second.node, first.node);
+}
+
+function applyTextEdit(edit: ReplaceTextEdit): void {
+    const editableNode = edit.node as unknown as Partial<Record<EditableTextProperty, unknown>>;
+    const original = editableNode[edit.property];
+
+    if (typeof original !== 'string') {
+        throw new Error(`Cannot replace text in non-string "${edit.property}" property.`);
+    }
+    if (edit.start < 0 || edit.end < edit.start || edit.end > original.length) {
+        throw new Error(
+            `Invalid text range ${edit.start}-${edit.end} for "${edit.property}" with length ${original.length}.`,
+        );
+    }
+    editableNode[edit.property] = `${original.slice(0, edit.start)}${edit.text}${original.slice(
+        edit.end,
+    )}`;
+}
+
+function applyNodeEdit(edit: RemoveNodeEdit | ReplaceNodeEdit): void {
+    if (edit.type === 'remove-node') {
+        edit.node.remove();
+    } else {
+        edit.node.replaceWith(edit.replacement);
+    }
+}
+
+/**
+ * Creates a queue which collects fixes while a rule runs so that they can all be checked for
+ * conflicts and then applied together once the rule finishes.
+ */
+export function createFixQueue<ViolationType>() {
+    const queuedFixes: QueuedFix<ViolationType>[] = [];
+
+    return {
+        queue(fix: RuleFix, violation: ViolationType): void {
+            queuedFixes.push({fix, violation});
+        },
+        /**
+         * Applies all queued fixes. Declarative fixes which conflict with an earlier declarative
+         * fix are not applied at all.
+         *
+         * @returns The violations whose fixes were not applied due to conflicts
+         */
+        applyAll(): ViolationType[] {
+            const acceptedEdits: RuleEdit[] = [];
+            const fixFunctions: (() => void)[] = [];
+            const conflictedViolations: ViolationType[] = [];
+
+            queuedFixes.forEach(({fix, violation}) => {
+                if (typeof fix === 'function') {
+                    fixFunctions.push(fix);
+                } else if (
+                    fix.some((edit) =>
+                        acceptedEdits.some((acceptedEdit) => doEditsConflict(edit, acceptedEdit)),
+                    )
+                ) {
+                    conflictedViolations.push(violation);
+                } else {
+                    acceptedEdits.push(...fix);
+                }
+            });
+            queuedFixes.splice(0);
+
+            // apply text edits from the end of each string to the start so indexes stay valid
+            acceptedEdits
+                .filter((edit): edit is ReplaceTextEdit => edit.type === 'replace-text')
+                .sort((a, b) => b.start - a.start)
+                .forEach(applyTextEdit);
+            acceptedEdits
+                .filter(
+                    (edit): edit is RemoveNodeEdit | ReplaceNodeEdit =>
+                        edit.type !== 'replace-text',
+                )
+                .forEach(applyNodeEdit);
+            fixFunctions.forEach((fixFunction) => fixFunction());
+
+            return conflictedViolations;
+        },
+    };
+}
@@ -0,0 +1,146 @@
+import {Root} from 'postcss';
+import {LintResult, PostcssResult} from 'stylelint';
+import {getPostcssResult} from './lint-result';
+
+/**
+ * Comment directives which DefaultRules understand. Each can be followed by a comma or space
+ * separated list of rule names to limit which rules it applies to. Without a list, the directive
+ * applies to all DefaultRules.
+ *
+ * Example comment contents: "rule-creator-ignore-next-line" or "rule-creator-ignore-start
+ * plugin-name/rule-name"
+ */
+export enum IgnoreDirective {
+    /** Ignore all reports on the line after the comment. */
+    NEXT_LINE = 'rule-creator-ignore-next-line',
+    /** Ignore all reports from this comment until a matching end directive or the end of the file. */
+    START = 'rule-creator-ignore-start',
+    /** Ends an ignored block started by a start directive. */
+    END = 'rule-creator-ignore-end',
+}
+
+/** An inclusive range of lines in which reports are ignored. */
+export type IgnoredLineRange = {
+    startLine: number;
+    endLine: number;
+};
+
+/** The reasons that a DefaultRule can drop a report. */
+export type IgnoredReportCounts = {
+    /** Reports dropped because they matched the user's lineExceptions option. */
+    lineExceptions: number;
+    /** Reports dropped because of an IgnoreDirective comment. */
+    ignoreComments: number;
+};
+
+/** Ignored report counts are stored on the PostcssResult under this property, keyed by rule name. */
+export const ignoredReportsResultKey = 'ruleCreatorIgnoredReports';
+
+type ResultWithIgnoredReports = PostcssResult & {
+    [ignoredReportsResultKey]?: Record<string, IgnoredReportCounts>;
+};
+
+function parseDirective(
+    commentText: string,
+): {directive: IgnoreDirective; ruleNames: string[]} | undefined {
+    const [
+        directive,
+        ...ruleNames
+    ] = commentText.trim().split(/[\s,]+/);
+
+    if (!Object.values(IgnoreDirective).includes(directive as IgnoreDirective)) {
+        return undefined;
+    }
+    return {
+        directive: directive as IgnoreDirective,
+        ruleNames: ruleNames.filter((ruleName) => !!ruleName),
+    };
+}
+
+/**
+ * Finds all the line ranges that IgnoreDirective comments in the given root ignore for the given rule.
+ *
+ * @param root The root of the file being linted
+ * @param ruleName The rule to find ignored ranges for. Directives which list other rules are skipped.
+ * @returns All ignored line ranges, in the order that their directives appear
+ */
+export function findIgnoredLineRanges(root: Root, ruleName: string): IgnoredLineRange[] {
+    const ranges: IgnoredLineRange[] = [];
+    let openBlockStartLine: number | undefined;
+
+    root.walkComments((comment) => {
+        const parsed = parseDirective(comment.text);
+        const commentLine = comment.source?.end?.line ?? comment.source?.start?.line;
+
+        if (
+            !parsed ||
+            commentLine == undefined ||
+            (parsed.ruleNames.length && !parsed.ruleNames.includes(ruleName))
+        ) {
+            return;
+        }
+
+        if (parsed.directive === IgnoreDirective.NEXT_LINE) {
+            ranges.push({startLine: commentLine + 1, endLine: commentLine + 1});
+        } else if (parsed.directive === IgnoreDirective.START) {
+            openBlockStartLine = openBlockStartLine ?? commentLine;
+        } else if (openBlockStartLine != undefined) {
+            ranges.push({startLine: openBlockStartLine, endLine: commentLine});
+            openBlockStartLine = undefined;
+        }
+    });
+
+    if (openBlockStartLine != undefined) {
+        ranges.push({startLine: openBlockStartLine, endLine: Infinity});
+    }
+
+    return ranges;
+}
+
+/**
+ * Checks if the given line is within any of the given ranges.
+ *
+ * @param line The line number to check. When undefined, false is returned.
+ * @param ranges Ranges obtained from findIgnoredLineRanges
+ */
+export function isLineIgnored(line: number | undefined, ranges: IgnoredLineRange[]): boolean {
+    if (line == undefined) {
+        return false;
+    }
+    return ranges.some((range) => range.startLine <= line && line <= range.endLine);
+}
+
+/**
+ * Gets the counts of reports that DefaultRules dropped while linting the file that the given result is for.
+ *
+ * @param result A stylelint LintResult or a postcss result
+ * @returns Counts keyed by rule name. Rules which haven't dropped any reports are not included.
+ */
+export function getIgnoredReportCounts(
+    result: Readonly<LintResult> | PostcssResult | undefined,
+): Readonly<Record<string, IgnoredReportCounts>> {
+    return (
+        (getPostcssResult(result) as ResultWithIgnoredReports | undefined)?.[
+            ignoredReportsResultKey
+        ] || {}
+    );
+}
+
+/**
+ * Increments the count of reports that the given rule dropped for the given reason.
+ *
+ * @param result The postcss result that the counts are stored on
+ */
+export function countIgnoredReport(
+    result: PostcssResult,
+    ruleName: string,
+    reason: keyof IgnoredReportCounts,
+): void {
+    const resultWithCounts = result as ResultWithIgnoredReports;
+    const allCounts = resultWithCounts[ignoredReportsResultKey] || {};
+    const ruleCounts = allCounts[ruleName] || {lineExceptions: 0, ignoreComments: 0};
+
+    ruleCounts[reason]++;
+    allCounts[ruleName] = ruleCounts;
+    resultWithCounts[ignoredReportsResultKey] = allCounts;
+}
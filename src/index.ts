@@ -1,2 +1,14 @@
+export * from './config-schema';
 export * from './default-rule';
+export * from './fix';
+export * from './ignore-comments';
+export * from './option-schema';
+export * from './plugin-pack';
+export * from './project-context';
 export * from './rule';
+export * from './rule-docs';
+export * from './rule-error';
+export * from './scaffold';
+export * from './suggestion';
+export * from './syntax-helpers';
+export * from './violation-range';
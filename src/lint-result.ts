@@ -0,0 +1,14 @@
+import {LintResult, PostcssResult} from 'stylelint';
+
+/**
+ * Gets the postcss result that stylelint keeps on its lint results, so that callers don't need to
+ * read stylelint's private _postcssResult property themselves.
+ */
+export function getPostcssResult(
+    result: Readonly<LintResult> | PostcssResult | undefined,
+): PostcssResult | undefined {
+    if (!result) {
+        return undefined;
+    }
+    return 'messages' in result ? result : result._postcssResult;
+}
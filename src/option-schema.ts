@@ -0,0 +1,272 @@
+/** Properties shared by every OptionSchema variant. */
+export type BaseOptionSchema = {
+    /**
+     * When true, the option may be left out of the options object entirely. Both undefined and null
+     * are accepted for optional options since stylelint configs are often pure JSON.
+     */
+    optional?: boolean | undefined;
+    /** Human readable explanation of what the option does. */
+    description?: string | undefined;
+};
+
+export type StringOptionSchema = BaseOptionSchema & {
+    type: 'string';
+    /** When provided, the string must exactly match one of these values. */
+    enum?: ReadonlyArray<string> | undefined;
+};
+
+export type NumberOptionSchema = BaseOptionSchema & {
+    type: 'number';
+    /** When provided, the number must exactly match one of these values. */
+    enum?: ReadonlyArray<number> | undefined;
+};
+
+export type BooleanOptionSchema = BaseOptionSchema & {
+    type: 'boolean';
+};
+
+export type ArrayOptionSchema = BaseOptionSchema & {
+    type: 'array';
+    /** Schema that every entry in the array must match. */
+    items: OptionSchema;
+};
+
+export type ObjectOptionSchema = BaseOptionSchema & {
+    type: 'object';
+    properties: Readonly<Record<string, OptionSchema>>;
+    /**
+     * When true, properties which are not listed in the properties object are ignored. Otherwise
+     * they are considered invalid.
+     */
+    allowUnknownProperties?: boolean | undefined;
+};
+
+export type OneOfOptionSchema = BaseOptionSchema & {
+    type: 'oneOf';
+    /** The value must match at least one of these schemas. */
+    options: ReadonlyArray<OptionSchema>;
+};
+
+/** A declarative description of a single option's valid values. Nest these to describe arrays and objects. */
+export type OptionSchema =
+    | StringOptionSchema
+    | NumberOptionSchema
+    | BooleanOptionSchema
+    | ArrayOptionSchema
+    | ObjectOptionSchema
+    | OneOfOptionSchema;
+
+/** A single part of an options object which does not match its schema. */
+export type OptionSchemaIssue = {
+    /** Path to the offending value, such as "fileExceptions[0]". */
+    path: string;
+    /** Human readable description of what was expected at the path. */
+    expected: string;
+    /** Human readable representation of the value that was actually found at the path. */
+    received: string;
+    /** Optional suggestion for fixing the issue, such as "did you mean 'require'?" */
+    hint?: string | undefined;
+    /** True when the path is a property which the schema doesn't have. */
+    unknown?: boolean | undefined;
+};
+
+/**
+ * Formats a list of property names and array indexes into a single readable path string.
+ *
+ * @param pathParts Property names (strings) and array indexes (numbers) leading to a value
+ * @returns A path string such as "nested.list[2]", or "options" when pathParts is empty
+ */
+export function formatOptionPath(pathParts: ReadonlyArray<string | number>): string {
+    if (!pathParts.length) {
+        return 'options';
+    }
+    return pathParts.reduce((accum: string, part) => {
+        if (typeof part === 'number') {
+            return `${accum}[${part}]`;
+        }
+        return accum ? `${accum}.${part}` : part;
+    }, '');
+}
+
+/**
+ * Creates a short human readable description of the values which the given schema accepts.
+ *
+ * @param schema The schema to describe
+ * @returns A description such as "array of string" or 'one of "off", "require"'
+ */
+export function describeOptionSchema(schema: Readonly<OptionSchema>): string {
+    if ((schema.type === 'string' || schema.type === 'number') && schema.enum) {
+        return `one of ${schema.enum.map((value) => JSON.stringify(value)).join(', ')}`;
+    } else if (schema.type === 'array') {
+        return `array of ${describeOptionSchema(schema.items)}`;
+    } else if (schema.type === 'oneOf') {
+        return schema.options.map(describeOptionSchema).join(' or ');
+    }
+    return schema.type;
+}
+
+function matchesSchemaType(input: unknown, schema: Readonly<OptionSchema>): boolean {
+    switch (schema.type) {
+        case 'array':
+            return Array.isArray(input);
+        case 'object':
+            return typeof input === 'object' && input !== null && !Array.isArray(input);
+        case 'number':
+            return typeof input === 'number' && !isNaN(input);
+        case 'oneOf':
+            return true;
+        default:
+            return typeof input === schema.type;
+    }
+}
+
+/**
+ * Finds the closest match (by edit distance) for the given input in a list of candidates. Only
+ * candidates that are reasonably close are considered, so that hints are not given for values which
+ * aren't likely typos.
+ */
+function findClosestMatch(input: string, candidates: ReadonlyArray<string>): string | undefined {
+    const maxDistance = Math.max(2, Math.floor(input.length / 3));
+
+    return candidates.reduce(
+        (closest: {candidate: string; distance: number} | undefined, candidate) => {
+            const distance = getEditDistance(input.toLowerCase(), candidate.toLowerCase());
+            if (distance > maxDistance || (closest && closest.distance <= distance)) {
+                return closest;
+            }
+            return {candidate, distance};
+        },
+        undefined,
+    )?.candidate;
+}
+
+/** Levenshtein distance between the two given strings. */
+function getEditDistance(first: string, second: string): number {
+    let previousRow = Array.from({length: second.length + 1}, (_, index) => index);
+
+    for (let firstIndex = 1; firstIndex <= first.length; firstIndex++) {
+        const currentRow = [firstIndex];
+        for (let secondIndex = 1; secondIndex <= second.length; secondIndex++) {
+            const substitutionCost = first[firstIndex - 1] === second[secondIndex - 1] ? 0 : 1;
+            currentRow[secondIndex] = Math.min(
+                previousRow[secondIndex]! + 1,
+                currentRow[secondIndex - 1]! + 1,
+                previousRow[secondIndex - 1]! + substitutionCost,
+            );
+        }
+        previousRow = currentRow;
+    }
+
+    return previousRow[second.length]!;
+}
+
+function createHint(suggestion: string | undefined): string | undefined {
+    return suggestion === undefined ? undefined : `did you mean '${suggestion}'?`;
+}
+
+/**
+ * Creates a short human readable representation of the given value for use in OptionSchemaIssue.
+ *
+ * @param input The value to describe. Can be anything.
+ * @returns A string such as '"block"', "5", or "undefined"
+ */
+export function describeReceivedValue(input: unknown): string {
+    return JSON.stringify(input) ?? String(input);
+}
+
+/**
+ * Formats the given issue into a single human readable sentence.
+ *
+ * @param issue The issue to format
+ * @returns A string such as: "mode" should be one of "off", "require", "block" but received
+ *   "requires" (did you mean 'require'?)
+ */
+export function formatOptionSchemaIssue(issue: Readonly<OptionSchemaIssue>): string {
+    const hint = issue.hint ? ` (${issue.hint})` : '';
+    if (issue.unknown) {
+        return `Unknown option "${issue.path}"${hint}`;
+    }
+    return `"${issue.path}" should be ${issue.expected} but received ${issue.received}${hint}`;
+}
+
+/**
+ * Finds every part of the given input which does not match the given schema.
+ *
+ * @param input The variable to validate. Can be anything.
+ * @param schema The schema which input should match
+ * @param pathParts Used internally to track the current path while recursing.
+ * @returns An empty array if the input matches the schema, otherwise a list of all issues found
+ */
+export function findOptionSchemaIssues(
+    input: unknown,
+    schema: Readonly<OptionSchema>,
+    pathParts: ReadonlyArray<string | number> = [],
+): OptionSchemaIssue[] {
+    const issue: OptionSchemaIssue = {
+        path: formatOptionPath(pathParts),
+        expected: describeOptionSchema(schema),
+        received: describeReceivedValue(input),
+    };
+
+    if (input === undefined || input === null) {
+        return schema.optional ? [] : [issue];
+    }
+    if (!matchesSchemaType(input, schema)) {
+        return [issue];
+    }
+
+    if (schema.type === 'oneOf') {
+        const isAnyMatch = schema.options.some(
+            (option) => !findOptionSchemaIssues(input, option, pathParts).length,
+        );
+        return isAnyMatch ? [] : [issue];
+    } else if (schema.type === 'string' || schema.type === 'number') {
+        if (schema.enum && !(schema.enum as ReadonlyArray<unknown>).includes(input)) {
+            const hint =
+                schema.type === 'string'
+                    ? createHint(findClosestMatch(input as string, schema.enum))
+                    : undefined;
+            return [hint ? {...issue, hint} : issue];
+        }
+    } else if (schema.type === 'array') {
+        return (input as unknown[]).flatMap((entry, index) =>
+            findOptionSchemaIssues(entry, schema.items, [
+                ...pathParts,
+                index,
+            ]),
+        );
+    } else if (schema.type === 'object') {
+        const inputObject = input as Record<string, unknown>;
+        const knownKeys = Object.keys(schema.properties);
+        const propertyIssues = knownKeys.flatMap((key) =>
+            findOptionSchemaIssues(inputObject[key], schema.properties[key]!, [
+                ...pathParts,
+                key,
+            ]),
+        );
+        if (schema.allowUnknownProperties) {
+            return propertyIssues;
+        }
+        const unknownKeyIssues = Object.keys(inputObject)
+            .filter((key) => !schema.properties.hasOwnProperty(key))
+            .map((unknownKey): OptionSchemaIssue => {
+                const hint = createHint(findClosestMatch(unknownKey, knownKeys));
+                return {
+                    path: formatOptionPath([
+                        ...pathParts,
+                        unknownKey,
+                    ]),
+                    expected: 'no such option',
+                    received: describeReceivedValue(inputObject[unknownKey]),
+                    unknown: true,
+                    ...(hint ? {hint} : {}),
+                };
+            });
+        return [
+            ...propertyIssues,
+            ...unknownKeyIssues,
+        ];
+    }
+
+    return [];
+}
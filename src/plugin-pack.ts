@@ -0,0 +1,107 @@
+import {Config} from 'stylelint';
+import {DefaultOptionMode, DefaultRule, DefaultRuleOptions} from './default-rule';
+import {Rule} from './rule';
+
+/** A shareable stylelint config generated by createPluginPack. */
+export type PluginPackConfig = Required<Pick<Config, 'plugins' | 'rules'>>;
+
+/**
+ * A bundle of rules which is directly exported to stylelint as a plugin. Since this is an array of
+ * rules, stylelint can load it as is. The extra properties describe the pack.
+ */
+export type PluginPack<Rules extends ReadonlyArray<Rule<any>> = ReadonlyArray<Rule<any>>> =
+    Rules & {
+        /** The plugin prefix which every rule name starts with, such as "plugin-name". */
+        prefix: string;
+        /** Path which stylelint loads the pack from. Use this in a config's plugins list. */
+        pluginPath: string;
+        configs: {
+            /** Enables every DefaultRule whose default options are not off, with those options. */
+            recommended: PluginPackConfig;
+            /**
+             * Enables every rule in the pack. DefaultRules use their default options, with mode set
+             * to require if the defaults are off. Other rules are simply set to true.
+             */
+            all: PluginPackConfig;
+        };
+    };
+
+function isDefaultRule(rule: Readonly<Rule<any>>): rule is DefaultRule<DefaultRuleOptions, any> {
+    return 'defaultOptions' in rule;
+}
+
+function findPluginPackIssues(prefix: string, rules: ReadonlyArray<Rule<any>>): string[] {
+    const issues: string[] = [];
+    const seenRuleNames = new Set<string>();
+
+    rules.forEach((rule) => {
+        if (!rule.ruleName.startsWith(`${prefix}/`)) {
+            issues.push(`"${rule.ruleName}" does not start with "${prefix}/"`);
+        }
+        if (seenRuleNames.has(rule.ruleName)) {
+            issues.push(`"${rule.ruleName}" is included more than once`);
+        }
+        seenRuleNames.add(rule.ruleName);
+    });
+
+    return issues;
+}
+
+function createPluginPackConfig(
+    pluginPath: string,
+    rules: ReadonlyArray<Rule<any>>,
+    getRuleSetting: (rule: Readonly<Rule<any>>) => DefaultRuleOptions | boolean | undefined,
+): PluginPackConfig {
+    return {
+        plugins: [pluginPath],
+        rules: rules.reduce((accum: PluginPackConfig['rules'], rule) => {
+            const setting = getRuleSetting(rule);
+            if (setting != undefined) {
+                accum[rule.ruleName] = setting;
+            }
+            return accum;
+        }, {}),
+    };
+}
+
+/**
+ * Bundles the given rules into a single plugin export along with generated shareable configs.
+ *
+ * @param prefix The plugin prefix. Every rule's name must start with this followed by a slash.
+ *   Example: "plugin-name" for rules such as "plugin-name/rule-name"
+ * @param pluginPath The path that stylelint should load the pack from. This is usually __filename
+ *   in the module which exports the pack.
+ * @param rules All the rules in the plugin. Rule names must be unique.
+ * @returns The pack, which should be the default export of the plugin's module
+ */
+export function createPluginPack<Rules extends ReadonlyArray<Rule<any>>>(inputs: {
+    prefix: string;
+    pluginPath: string;
+    rules: Rules;
+}): PluginPack<Rules> {
+    const issues = findPluginPackIssues(inputs.prefix, inputs.rules);
+    if (issues.length) {
+        throw new Error(`Invalid plugin pack "${inputs.prefix}": ${issues.join(', ')}`);
+    }
+
+    const recommended = createPluginPackConfig(inputs.pluginPath, inputs.rules, (rule) => {
+        if (isDefaultRule(rule) && rule.defaultOptions.mode !== DefaultOptionMode.OFF) {
+            return rule.defaultOptions;
+        }
+        return undefined;
+    });
+    const all = createPluginPackConfig(inputs.pluginPath, inputs.rules, (rule) => {
+        if (!isDefaultRule(rule)) {
+            return true;
+        }
+        return rule.defaultOptions.mode === DefaultOptionMode.OFF
+            ? {...rule.defaultOptions, mode: DefaultOptionMode.REQUIRE}
+            : rule.defaultOptions;
+    });
+
+    return Object.assign([...inputs.rules] as unknown as Rules, {
+        prefix: inputs.prefix,
+        pluginPath: inputs.pluginPath,
+        configs: {recommended, all},
+    });
+}
@@ -0,0 +1,203 @@
+import {readFileSync, statSync} from 'fs';
+import {basename, dirname, extname, join, resolve} from 'path';
+import {parse, Root} from 'postcss';
+import {PostcssResult} from 'stylelint';
+
+/** How the project context reads files. Paths are always absolute. */
+export type ProjectFileSystem = {
+    isFile: (filePath: string) => boolean;
+    /** Returns undefined when the file can't be read. */
+    readFile: (filePath: string) => string | undefined;
+};
+
+/** Configuration for a rule's project context. */
+export type ProjectContextOptions = {
+    /** Where files are read from. Defaults to the real file system. */
+    fileSystem?: ProjectFileSystem | undefined;
+    /**
+     * Extensions which are tried for imports without one, after the linted file's own extension.
+     * Defaults to .scss, .sass, .less, and .css.
+     */
+    extensions?: string[] | undefined;
+};
+
+/**
+ * Information about the other files in the project, given to every rule callback in its execution
+ * info. Nothing is read until it's used.
+ */
+export type ProjectContext = {
+    /** The linted file, from result.opts.from. Undefined for code without a file name. */
+    file: string | undefined;
+    /**
+     * Shared by every file that the rule lints in one lint run, for anything that is expensive to
+     * compute once per file. Use it to collect information across files. A new lint run starts with
+     * an empty cache.
+     */
+    cache: Map<string, unknown>;
+    fileSystem: ProjectFileSystem;
+    /**
+     * Finds the file imported by an @import, @use, or @forward url, relative to the linted file (or
+     * the current working directory for code without a file name). Imports without an extension,
+     * Sass partials (_name), and index files are found like Sass finds them.
+     *
+     * @returns Undefined for urls with a protocol (such as https: or sass:) and files which don't exist.
+     */
+    resolveImport: (url: string) => string | undefined;
+    /**
+     * Parses a file with the linted file's syntax. Parsed files are shared by every file in the
+     * lint run, so don't modify them.
+     *
+     * @returns Undefined when the file doesn't exist or doesn't parse.
+     */
+    parseFile: (filePath: string) => Root | undefined;
+    /** Resolves an import url and parses the imported file. See resolveImport and parseFile. */
+    getImportedRoot: (url: string) => Root | undefined;
+};
+
+/** The parts of a project context which are shared by every file in one lint run. */
+export type ProjectRunState = {
+    cache: Map<string, unknown>;
+    parsedRoots: Map<string, Root | undefined>;
+};
+
+const defaultExtensions = [
+    '.scss',
+    '.sass',
+    '.less',
+    '.css',
+];
+
+export const nodeFileSystem: Readonly<ProjectFileSystem> = {
+    isFile: (filePath) => !!statSync(filePath, {throwIfNoEntry: false})?.isFile(),
+    readFile: (filePath) => {
+        try {
+            return readFileSync(filePath, 'utf8');
+        } catch (error) {
+            return undefined;
+        }
+    },
+};
+
+/**
+ * Creates an in-memory file system from file contents keyed by their path. Relative paths are
+ * resolved from the current working directory. This is mostly useful for testing rules which use
+ * the project context.
+ */
+export function createVirtualFileSystem(
+    files: Readonly<Record<string, string>>,
+): ProjectFileSystem {
+    const contents = new Map(
+        Object.entries(files).map(
+            ([
+                filePath,
+                fileContents,
+            ]) => [
+                resolve(filePath),
+                fileContents,
+            ],
+        ),
+    );
+    return {
+        isFile: (filePath) => contents.has(resolve(filePath)),
+        readFile: (filePath) => contents.get(resolve(filePath)),
+    };
+}
+
+function getImportCandidates(importPath: string, extensions: ReadonlyArray<string>): string[] {
+    const withExtensions = extname(importPath)
+        ? [importPath]
+        : [
+              importPath,
+              ...extensions.map((extension) => `${importPath}${extension}`),
+          ];
+    const withPartials = withExtensions.flatMap((candidate) => [
+        candidate,
+        join(dirname(candidate), `_${basename(candidate)}`),
+    ]);
+    const indexFiles = extname(importPath)
+        ? []
+        : extensions.flatMap((extension) => [
+              join(importPath, `index${extension}`),
+              join(importPath, `_index${extension}`),
+          ]);
+
+    return [
+        ...withPartials,
+        ...indexFiles,
+    ];
+}
+
+function parseContents(
+    contents: string,
+    filePath: string,
+    result: PostcssResult,
+): Root | undefined {
+    try {
+        // stylelint also types the documents of syntaxes such as postcss-html as roots
+        return (result.opts?.syntax?.parse ?? parse)(contents, {from: filePath}) as Root;
+    } catch (error) {
+        return undefined;
+    }
+}
+
+/**
+ * Creates the state which is shared by every file in one lint run. Keep one per lint run, such as
+ * in a WeakMap keyed by result.stylelint.config.
+ */
+export function createProjectRunState(): ProjectRunState {
+    return {cache: new Map(), parsedRoots: new Map()};
+}
+
+/** Creates the project context for a single linted file. */
+export function createProjectContext(
+    runState: ProjectRunState,
+    result: PostcssResult,
+    options: Readonly<ProjectContextOptions> = {},
+): ProjectContext {
+    const fileSystem = options.fileSystem ?? nodeFileSystem;
+    const file = result.opts?.from;
+    const fileExtension = file ? extname(file) : '';
+    const extensions = Array.from(
+        new Set(
+            [
+                fileExtension,
+                ...(options.extensions ?? defaultExtensions),
+            ].filter(Boolean),
+        ),
+    );
+
+    const resolveImport = (url: string) => {
+        // urls with a protocol, such as https: or sass:math, and protocol relative urls
+        if (/^[a-z][a-z\d+.-]*:/i.test(url) || url.startsWith('//')) {
+            return undefined;
+        }
+        const importPath = resolve(file ? dirname(file) : process.cwd(), url);
+        return getImportCandidates(importPath, extensions).find((candidate) =>
+            fileSystem.isFile(candidate),
+        );
+    };
+
+    const parseFile = (filePath: string) => {
+        const absolutePath = resolve(filePath);
+        if (runState.parsedRoots.has(absolutePath)) {
+            return runState.parsedRoots.get(absolutePath);
+        }
+        const contents = fileSystem.readFile(absolutePath);
+        const root =
+            contents == undefined ? undefined : parseContents(contents, absolutePath, result);
+        runState.parsedRoots.set(absolutePath, root);
+        return root;
+    };
+
+    return {
+        file,
+        cache: runState.cache,
+        fileSystem,
+        resolveImport,
+        parseFile,
+        getImportedRoot: (url) => {
+            const importedFile = resolveImport(url);
+            return importedFile == undefined ? undefined : parseFile(importedFile);
+        },
+    };
+}
@@ -0,0 +1,211 @@
+import {existsSync, readFileSync, writeFileSync} from 'fs';
+import {LinterOptions} from 'stylelint';
+import {DefaultOptionMode, DefaultRule, DefaultRuleOptions} from './default-rule';
+import {describeOptionSchema, OptionSchema} from './option-schema';
+import {Rule} from './rule';
+
+/**
+ * Tests which examples can be taken from. Only tests with a description are used. Tests given to
+ * testDefaultRule or testRule match this type.
+ */
+export type RuleDocsTest = {
+    description?: string | undefined;
+    ruleOptions: unknown;
+    accept: ReadonlyArray<{code: string}>;
+    reject: ReadonlyArray<{code: string}>;
+    linterOptions?: Readonly<Partial<LinterOptions>> | undefined;
+};
+
+const modeDescriptions: Readonly<Record<DefaultOptionMode, string>> = {
+    [DefaultOptionMode.OFF]: 'the rule is turned completely off.',
+    [DefaultOptionMode.REQUIRE]: 'code must follow the rule.',
+    [DefaultOptionMode.BLOCK]: 'code must NOT follow the rule (the rule is inverted).',
+};
+
+function isDefaultRule(rule: Readonly<Rule<any>>): rule is DefaultRule<DefaultRuleOptions, any> {
+    return 'defaultOptions' in rule;
+}
+
+function escapeTableCell(text: string): string {
+    return text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+function createCodeBlock(code: string, language: string): string {
+    return `\`\`\`${language}\n${code.trim()}\n\`\`\``;
+}
+
+function getCodeLanguage(linterOptions: Readonly<Partial<LinterOptions>> | undefined): string {
+    const customSyntax = linterOptions?.customSyntax;
+    if (typeof customSyntax === 'string') {
+        const match = customSyntax.match(/^postcss-(\w+)$/);
+        if (match?.[1]) {
+            return match[1];
+        }
+    }
+    return 'css';
+}
+
+function createHeaderSection(rule: Readonly<Rule<any>>): string[] {
+    const meta = rule.meta;
+    const replacements = meta?.replacedBy?.map((ruleName) => `\`${ruleName}\``).join(', ');
+
+    return [
+        `# \`${rule.ruleName}\``,
+        meta?.description,
+        meta?.deprecated
+            ? `> **Deprecated.**${replacements ? ` Use ${replacements} instead.` : ''}`
+            : undefined,
+        meta?.fixable
+            ? "Violations of this rule can be automatically fixed with stylelint's `fix` option."
+            : undefined,
+    ].filter((line): line is string => !!line);
+}
+
+function createOptionsTable(optionsSchema: Readonly<OptionSchema>): string {
+    const rows: string[][] =
+        optionsSchema.type === 'object'
+            ? Object.entries(optionsSchema.properties).map(
+                  ([
+                      name,
+                      schema,
+                  ]) => [
+                      `\`${name}\``,
+                      describeOptionSchema(schema),
+                      schema.optional ? 'no' : 'yes',
+                      schema.description || '',
+                  ],
+              )
+            : [
+                  [
+                      'primary option',
+                      describeOptionSchema(optionsSchema),
+                      'yes',
+                      optionsSchema.description || '',
+                  ],
+              ];
+
+    return [
+        [
+            'Option',
+            'Type',
+            'Required',
+            'Description',
+        ],
+        [
+            '---',
+            '---',
+            '---',
+            '---',
+        ],
+        ...rows,
+    ]
+        .map((row) => `| ${row.map(escapeTableCell).join(' | ')} |`)
+        .join('\n');
+}
+
+function createOptionsSection(rule: Readonly<Rule<any>>): string[] {
+    if (!rule.optionsSchema) {
+        return [];
+    }
+    const lines = [
+        '## Options',
+        createOptionsTable(rule.optionsSchema),
+    ];
+
+    if (isDefaultRule(rule)) {
+        lines.push(
+            'The `mode` option controls how the rule behaves:',
+            Object.values(DefaultOptionMode)
+                .map((mode) => `-   \`"${mode}"\`: ${modeDescriptions[mode]}`)
+                .join('\n'),
+            '## Default Options',
+            'Setting this rule to `true` is the same as setting it to these options:',
+            createCodeBlock(JSON.stringify(rule.defaultOptions, null, 4), 'json'),
+        );
+    }
+
+    return lines;
+}
+
+function createExampleSection(test: Readonly<RuleDocsTest>): string[] {
+    const language = getCodeLanguage(test.linterOptions);
+    const lines = [
+        `### ${test.description}`,
+        'With these options:',
+        createCodeBlock(JSON.stringify(test.ruleOptions, null, 4), 'json'),
+    ];
+
+    if (test.accept.length) {
+        lines.push(
+            '#### Accepted',
+            ...test.accept.map((testCase) => createCodeBlock(testCase.code, language)),
+        );
+    }
+    if (test.reject.length) {
+        lines.push(
+            '#### Rejected',
+            ...test.reject.map((testCase) => createCodeBlock(testCase.code, language)),
+        );
+    }
+
+    return lines;
+}
+
+/**
+ * Renders Markdown documentation for the given rule from its metadata, options schema, default
+ * options, and tests.
+ *
+ * @param rule The rule to document
+ * @param tests The rule's tests, such as those given to testDefaultRule. Only tests with a
+ *   description are turned into examples, the description is used as the example's heading.
+ * @returns The Markdown contents
+ */
+export function generateRuleDocs(
+    rule: Readonly<Rule<any>>,
+    tests: ReadonlyArray<Readonly<RuleDocsTest>>,
+): string {
+    const examples = tests.filter((test) => test.description);
+    const sections = [
+        ...createHeaderSection(rule),
+        ...createOptionsSection(rule),
+        ...(examples.length
+            ? [
+                  '## Examples',
+                  ...examples.flatMap(createExampleSection),
+              ]
+            : []),
+    ];
+
+    return `${sections.join('\n\n')}\n`;
+}
+
+/**
+ * Writes the docs generated by generateRuleDocs to the given file path. In check mode, the file is
+ * not written. Instead, an error is thrown if the file's current contents don't match the generated
+ * docs, which is useful for making sure committed docs are not stale.
+ *
+ * @param docsPath The Markdown file to write or check
+ * @param check When true, only check that the docs are up to date
+ */
+export function writeRuleDocs(inputs: {
+    rule: Readonly<Rule<any>>;
+    tests: ReadonlyArray<Readonly<RuleDocsTest>>;
+    docsPath: string;
+    check?: boolean | undefined;
+}): void {
+    const docs = generateRuleDocs(inputs.rule, inputs.tests);
+
+    if (!inputs.check) {
+        writeFileSync(inputs.docsPath, docs);
+        return;
+    }
+
+    const currentDocs = existsSync(inputs.docsPath)
+        ? readFileSync(inputs.docsPath, 'utf8')
+        : undefined;
+    if (currentDocs !== docs) {
+        throw new Error(
+            `Docs for "${inputs.rule.ruleName}" at "${inputs.docsPath}" are out of date. Regenerate them with writeRuleDocs.`,
+        );
+    }
+}
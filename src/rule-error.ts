@@ -0,0 +1,108 @@
+import {Root, WarningOptions} from 'postcss';
+import {LintResult, PostcssResult} from 'stylelint';
+import {getPostcssResult} from './lint-result';
+
+/** Details of an error thrown by a rule, attached to the warning that reports it. */
+export type RuleInternalError = {
+    rule: string;
+    /** The linted file, or postcss' id for code without a file. */
+    file: string | undefined;
+    message: string;
+    stack: string | undefined;
+    /** True when the rule was stopped because it took longer than its timeout. */
+    timedOut: boolean;
+};
+
+/** The stylelintType of warnings which report errors thrown by rules. */
+export const internalErrorWarningType = 'internalError';
+
+/** Property on postcss warning messages which internal error details are stored under. */
+export const internalErrorMessageKey = 'internalError';
+
+// errors created by withRuleTimeout, so that they can be told apart from errors thrown by rules
+const timeoutErrors = new WeakSet<Error>();
+
+/**
+ * Rejects with an error if the given promise doesn't settle within the timeout. The promise itself
+ * can't be cancelled, so the rule keeps running in the background.
+ */
+export function withRuleTimeout<T>(
+    promise: PromiseLike<T>,
+    ruleName: string,
+    timeout: number | undefined,
+): Promise<T> {
+    if (timeout == undefined) {
+        return Promise.resolve(promise);
+    }
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+    return Promise.race([
+        promise,
+        new Promise<never>((resolve, reject) => {
+            timeoutId = setTimeout(() => {
+                const timeoutError = new Error(`"${ruleName}" did not finish within ${timeout}ms.`);
+                timeoutErrors.add(timeoutError);
+                reject(timeoutError);
+            }, timeout);
+        }),
+    ]).finally(() => timeoutId && clearTimeout(timeoutId));
+}
+
+/**
+ * Reports an error thrown by a rule as an error severity warning, instead of letting it crash the
+ * whole lint run. The warning names the rule and the file and has the error's details attached (see
+ * getWarningInternalErrors).
+ */
+export function reportInternalError(
+    error: unknown,
+    ruleName: string,
+    root: Root,
+    result: PostcssResult,
+): void {
+    const internalError: RuleInternalError = {
+        rule: ruleName,
+        file: result.opts?.from ?? root.source?.input.from,
+        message: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        timedOut: error instanceof Error && timeoutErrors.has(error),
+    };
+    const warningOptions: WarningOptions & Record<string, unknown> = {
+        rule: ruleName,
+        severity: 'error',
+        stylelintType: internalErrorWarningType,
+        [internalErrorMessageKey]: internalError,
+        ...(root.source?.start ? {node: root} : {}),
+    };
+
+    if (result.stylelint) {
+        result.stylelint.stylelintError = true;
+    }
+    result.warn(
+        `Rule "${ruleName}" failed while linting "${internalError.file ?? 'unknown file'}": ${
+            internalError.message
+        } (${ruleName})`,
+        warningOptions,
+    );
+}
+
+/**
+ * Gets the details of every error thrown by rules in the given result.
+ *
+ * @param result A stylelint LintResult or a postcss result
+ */
+export function getWarningInternalErrors(
+    result: Readonly<LintResult> | PostcssResult | undefined,
+): RuleInternalError[] {
+    const postcssResult = getPostcssResult(result);
+    if (!postcssResult) {
+        return [];
+    }
+    return postcssResult.messages
+        .filter(
+            (message) =>
+                message.type === 'warning' &&
+                message.stylelintType === internalErrorWarningType &&
+                message[internalErrorMessageKey],
+        )
+        .map((message) => message[internalErrorMessageKey]);
+}
@@ -0,0 +1,166 @@
+import {lint, LinterOptions} from 'stylelint';
+import {inspect} from 'util';
+import {Rule} from './rule';
+import {getWarningInternalErrors} from './rule-error';
+import {createRuleLinterOptions} from './rule-test';
+import {jestAdapter, RuleTestCase, TestRunnerAdapter} from './test-runner';
+
+/** The input to testRuleNeverThrows. */
+export type FuzzRuleInput<RuleOptions> = {
+    /** The rule being tested. It is registered with stylelint in memory. */
+    rule: Readonly<Rule<any>>;
+    ruleOptions: RuleOptions;
+    /**
+     * Code which is randomly broken up, repeated, and mixed with CSS punctuation to create the
+     * fuzzed inputs. Include code which the rule reports on. Defaults to a few snippets of common CSS.
+     */
+    seedCode?: string[] | undefined;
+    /** How many fuzzed inputs are linted. Defaults to 50. */
+    count?: number | undefined;
+    /** Seed for the fuzzed inputs. The same seed always creates the same inputs. Defaults to 1. */
+    seed?: number | undefined;
+    linterOptions?: Partial<LinterOptions> | undefined;
+};
+
+const defaultSeedCode = [
+    `a { color: #abc; visibility: hidden; }`,
+    `@import (reference) "dir/_file.css" screen;`,
+    `@media (min-width: 1px) { .b:not(.c) > d { margin: 0 auto !important; } }`,
+    `/* comment */ e::before { content: "x"; background: url(image.png); }`,
+];
+
+const fuzzTokens = [
+    '{',
+    '}',
+    ';',
+    ':',
+    ',',
+    '(',
+    ')',
+    '"',
+    "'",
+    '/*',
+    '*/',
+    '\n',
+    ' ',
+    '#',
+    '@',
+    '@import ',
+    'url(',
+    '!important',
+    '$var',
+    '\\',
+];
+
+/** Small seeded pseudo random number generator (mulberry32) so that fuzzed inputs are repeatable. */
+function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let mixed = Math.imul(state ^ (state >>> 15), state | 1);
+        mixed ^= mixed + Math.imul(mixed ^ (mixed >>> 7), mixed | 61);
+        return ((mixed ^ (mixed >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function fuzzCode(code: string, random: () => number): string {
+    const randomIndex = (length: number) => Math.floor(random() * length);
+    const mutationCount = 1 + randomIndex(3);
+
+    return Array.from({length: mutationCount}).reduce((fuzzed: string) => {
+        const start = randomIndex(fuzzed.length + 1);
+        const end = start + randomIndex(fuzzed.length - start + 1);
+        switch (randomIndex(3)) {
+            case 0:
+                return `${fuzzed.slice(0, start)}${fuzzed.slice(end)}`;
+            case 1:
+                return `${fuzzed.slice(0, start)}${
+                    fuzzTokens[randomIndex(fuzzTokens.length)]
+                }${fuzzed.slice(start)}`;
+            default:
+                return `${fuzzed.slice(0, end)}${fuzzed.slice(start)}`;
+        }
+    }, code);
+}
+
+/** Creates the fuzzed inputs for the given seed code. */
+export function createFuzzedCode(
+    seedCode: ReadonlyArray<string>,
+    count: number,
+    seed: number,
+): string[] {
+    const random = createRandom(seed);
+    return Array.from({length: count}, () =>
+        fuzzCode(seedCode[Math.floor(random() * seedCode.length)] ?? '', random),
+    );
+}
+
+async function assertLintNeverThrows(
+    ruleName: string,
+    linterOptions: Readonly<Partial<LinterOptions>>,
+): Promise<void> {
+    const {results} = await lint(linterOptions);
+    const internalErrors = results.flatMap((result) => getWarningInternalErrors(result));
+    const internalError = internalErrors.find((error) => error.rule === ruleName);
+    if (internalError) {
+        throw new Error(
+            `"${ruleName}" threw${linterOptions.fix ? ' while fixing' : ''} on ${inspect(
+                linterOptions.code,
+            )}:\n${internalError.stack ?? internalError.message}`,
+        );
+    }
+}
+
+/**
+ * Creates runner independent test cases which lint fuzzed, often invalid, code with the rule (with
+ * and without fix) and fail if the rule throws. Code which doesn't parse is skipped by stylelint,
+ * so only inputs which parse reach the rule.
+ */
+export function createFuzzTestCases<RuleOptions>(
+    input: Readonly<FuzzRuleInput<RuleOptions>>,
+): RuleTestCase[] {
+    const linterOptions = createRuleLinterOptions({
+        ruleName: input.rule.ruleName,
+        rule: input.rule,
+        ruleOptions: input.ruleOptions,
+        ...(input.linterOptions ? {linterOptions: input.linterOptions} : {}),
+    });
+    const fuzzedCode = createFuzzedCode(
+        input.seedCode ?? defaultSeedCode,
+        input.count ?? 50,
+        input.seed ?? 1,
+    );
+
+    return fuzzedCode.map((code, index) => {
+        return {
+            describePath: [
+                input.rule.ruleName,
+                'never throws',
+                inspect(input.ruleOptions),
+            ],
+            name: `fuzzed input ${index + 1}: ${inspect(code)}`,
+            only: false,
+            skip: false,
+            run: async () => {
+                await assertLintNeverThrows(input.rule.ruleName, {...linterOptions, code});
+                await assertLintNeverThrows(input.rule.ruleName, {
+                    ...linterOptions,
+                    code,
+                    fix: true,
+                });
+            },
+        };
+    });
+}
+
+/**
+ * Tests that a rule never throws, even on broken code. See createFuzzTestCases.
+ *
+ * @param adapter Registers the tests with a test runner. Defaults to Jest.
+ */
+export function testRuleNeverThrows<RuleOptions>(
+    input: FuzzRuleInput<RuleOptions>,
+    adapter: TestRunnerAdapter = jestAdapter,
+): void {
+    adapter(createFuzzTestCases(input));
+}
@@ -0,0 +1,118 @@
+import {deepStrictEqual} from 'assert';
+import {existsSync, mkdirSync, readFileSync, writeFileSync} from 'fs';
+import {dirname, resolve} from 'path';
+import {isDeepStrictEqual} from 'util';
+
+/** Where and how reject test case results are recorded by a snapshot test. */
+export type RuleTestSnapshotOptions = {
+    /** The JSON file which stores the snapshots. It is created if it doesn't exist yet. */
+    path: string;
+    /**
+     * Overwrite snapshots which don't match instead of failing. Defaults to true when the
+     * UPDATE_RULE_SNAPSHOTS environment variable is set.
+     */
+    update?: boolean | undefined;
+    /**
+     * Fail on missing snapshots instead of recording them, like Jest's --ci flag. Missing snapshots
+     * are still recorded when updating. Defaults to true when the CI environment variable is set.
+     */
+    ci?: boolean | undefined;
+};
+
+/** A single recorded warning. */
+export type WarningSnapshot = {
+    message: string;
+    line: number;
+    column: number;
+    word?: string;
+};
+
+/** Everything that is recorded for a single reject test case. */
+export type RejectTestCaseSnapshot = {
+    warnings: WarningSnapshot[];
+    /** Only recorded when the test has fix enabled. */
+    fixed?: string;
+};
+
+type SnapshotFile = Record<string, RejectTestCaseSnapshot>;
+
+const loadedSnapshotFiles = new Map<string, SnapshotFile>();
+const snapshotKeyCounts = new Map<string, Map<string, number>>();
+
+function loadSnapshotFile(snapshotPath: string): SnapshotFile {
+    const loaded = loadedSnapshotFiles.get(snapshotPath);
+    if (loaded) {
+        return loaded;
+    }
+    const snapshotFile: SnapshotFile = existsSync(snapshotPath)
+        ? JSON.parse(readFileSync(snapshotPath, 'utf8'))
+        : {};
+    loadedSnapshotFiles.set(snapshotPath, snapshotFile);
+    return snapshotFile;
+}
+
+function writeSnapshotFile(snapshotPath: string, snapshotFile: Readonly<SnapshotFile>): void {
+    const sortedSnapshots = Object.keys(snapshotFile)
+        .sort()
+        .reduce((accum: SnapshotFile, key) => {
+            accum[key] = snapshotFile[key]!;
+            return accum;
+        }, {});
+    mkdirSync(dirname(snapshotPath), {recursive: true});
+    writeFileSync(snapshotPath, `${JSON.stringify(sortedSnapshots, null, 4)}\n`);
+}
+
+/**
+ * Creates the key which a test case's snapshot is stored under. Test cases with identical names in
+ * the same snapshot file are numbered in the order they are created, so this must be called while
+ * creating test cases rather than while running them.
+ */
+export function createSnapshotKey(
+    snapshotOptions: Readonly<RuleTestSnapshotOptions>,
+    testCaseName: string,
+): string {
+    const snapshotPath = resolve(snapshotOptions.path);
+    const keyCounts = snapshotKeyCounts.get(snapshotPath) || new Map<string, number>();
+    snapshotKeyCounts.set(snapshotPath, keyCounts);
+
+    const count = (keyCounts.get(testCaseName) || 0) + 1;
+    keyCounts.set(testCaseName, count);
+
+    return count > 1 ? `${testCaseName} ${count}` : testCaseName;
+}
+
+/**
+ * Compares a reject test case's actual results with its stored snapshot. Missing snapshots are
+ * recorded, except in CI where they fail the test. Snapshots which don't match fail the test unless
+ * updating is enabled, in which case they are overwritten.
+ */
+export function matchRuleTestSnapshot(
+    snapshotOptions: Readonly<RuleTestSnapshotOptions>,
+    snapshotKey: string,
+    actual: Readonly<RejectTestCaseSnapshot>,
+): void {
+    const snapshotPath = resolve(snapshotOptions.path);
+    const snapshotFile = loadSnapshotFile(snapshotPath);
+    const expected = snapshotFile[snapshotKey];
+    const update = snapshotOptions.update ?? !!process.env.UPDATE_RULE_SNAPSHOTS;
+    const ci = snapshotOptions.ci ?? !!process.env.CI;
+
+    if (expected && isDeepStrictEqual(actual, expected)) {
+        return;
+    }
+    if (!expected && ci && !update) {
+        throw new Error(
+            `Snapshot "${snapshotKey}" is missing from "${snapshotPath}". Missing snapshots are not recorded in CI. Record it locally or set the UPDATE_RULE_SNAPSHOTS environment variable.`,
+        );
+    }
+    if (expected && !update) {
+        deepStrictEqual(
+            actual,
+            expected,
+            `Snapshot "${snapshotKey}" in "${snapshotPath}" does not match. Set the UPDATE_RULE_SNAPSHOTS environment variable to update it.`,
+        );
+    }
+
+    snapshotFile[snapshotKey] = actual;
+    writeSnapshotFile(snapshotPath, snapshotFile);
+}
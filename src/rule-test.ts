@@ -0,0 +1,411 @@
+import {deepStrictEqual, notStrictEqual, ok, strictEqual} from 'assert';
+import {lint, LinterOptions, LinterResult, LintResult} from 'stylelint';
+import {inspect} from 'util';
+import {Rule} from './rule';
+import {
+    createSnapshotKey,
+    matchRuleTestSnapshot,
+    RejectTestCaseSnapshot,
+    RuleTestSnapshotOptions,
+} from './rule-snapshot';
+import {getWarningSuggestions} from './suggestion';
+import {jestAdapter, RuleTestCase, TestRunnerAdapter} from './test-runner';
+
+/** A single piece of code which a rule test lints. */
+export type TestCase = {
+    code: string;
+    description?: string;
+    skipThisTest?: boolean;
+    onlyRunThisTest?: boolean;
+};
+
+/**
+ * A warning which a reject test case expects the rule to report. Positions are 1-based and only
+ * checked when given. The end position is exclusive, like stylelint's.
+ */
+export type WarningMessage = {
+    message: string;
+    line?: number | undefined;
+    column?: number | undefined;
+    endLine?: number | undefined;
+    endColumn?: number | undefined;
+};
+
+/** The expected output of a single suggestion attached to a reject test case's warning. */
+export type ExpectedSuggestion = {
+    name: string;
+    output: string;
+};
+
+/**
+ * A test case which the rule should reject with the given message or warnings. The message (or
+ * warnings) and fixed output may be omitted when the test uses a snapshot, in which case they are
+ * checked against the snapshot instead.
+ */
+export type RejectTestCase = TestCase &
+    Partial<WarningMessage> & {
+        fixed?: string;
+        unfixable?: boolean;
+        warnings?: WarningMessage[];
+        /**
+         * The suggestions expected on the test case's warnings, in the order they were reported.
+         * When this is undefined, suggestions are not checked.
+         */
+        suggestions?: ExpectedSuggestion[];
+    };
+
+/**
+ * The input to testRule. This matches the TestRuleInput type from stylelint-jest-rule-tester, with
+ * the addition of asserting suggestions.
+ */
+export type TestRuleInput<RuleOptions> = {
+    ruleName: string;
+    /**
+     * The rule being tested. When given, it is registered with stylelint in memory so that no
+     * plugin paths are needed in linterOptions. Plugins in linterOptions take precedence over this.
+     */
+    rule?: Readonly<Rule<any>> | undefined;
+    ruleOptions: RuleOptions;
+    accept: TestCase[];
+    reject: RejectTestCase[];
+    fix?: boolean;
+    description?: string;
+    linterOptions?: Partial<LinterOptions>;
+    /**
+     * Record every reject test case's warnings (and fixed output, when fix is enabled) in a
+     * snapshot file. Reject test cases are then checked against their snapshot.
+     */
+    snapshot?: RuleTestSnapshotOptions | undefined;
+};
+
+async function getSingleLintResult(linterOptions: Partial<LinterOptions>): Promise<LintResult> {
+    const {
+        results: [result],
+    }: LinterResult = await lint(linterOptions);
+    if (!result) {
+        throw new Error(`Didn't find single lint result for single lint input.`);
+    }
+    return result;
+}
+
+function getOutputCss(result: Readonly<LintResult>): string {
+    const postcssResult = result._postcssResult!;
+    return postcssResult.root.toString(postcssResult.opts?.syntax);
+}
+
+function assertNoParseErrors(result: Readonly<LintResult>): void {
+    deepStrictEqual(result.parseErrors, [], 'The code failed to parse.');
+}
+
+function getActualSuggestions(
+    result: Readonly<LintResult>,
+    ruleName: string,
+): ExpectedSuggestion[] {
+    return getWarningSuggestions(result)
+        .filter((warning) => warning.rule === ruleName)
+        .flatMap((warning) =>
+            warning.suggestions.map((suggestion) => {
+                return {name: suggestion.name, output: suggestion.output};
+            }),
+        );
+}
+
+function createRejectSnapshot(
+    result: Readonly<LintResult>,
+    fixedCode: string | undefined,
+): RejectTestCaseSnapshot {
+    const warnings = result.warnings.map((warning, index) => {
+        // stylelint creates its warnings from the postcss messages in the same order
+        const word: unknown = result._postcssResult?.messages[index]?.word;
+        return {
+            message: warning.text,
+            line: warning.line,
+            column: warning.column,
+            ...(typeof word === 'string' ? {word} : {}),
+        };
+    });
+
+    return fixedCode == undefined ? {warnings} : {warnings, fixed: fixedCode};
+}
+
+function assertWarnings(
+    result: Readonly<LintResult>,
+    expectedWarnings: ReadonlyArray<Partial<WarningMessage>>,
+): void {
+    strictEqual(
+        result.warnings.length,
+        expectedWarnings.length,
+        `Expected ${expectedWarnings.length} warning(s) but got: ${inspect(
+            result.warnings.map((warning) => warning.text),
+        )}`,
+    );
+    expectedWarnings.forEach((expectedWarning, index) => {
+        const actualWarning = result.warnings[index]!;
+        // stylelint creates its warnings from the postcss messages in the same order
+        const postcssWarning = result._postcssResult?.messages[index];
+        const actualPositions: Required<Omit<WarningMessage, 'message'>> = {
+            line: actualWarning.line,
+            column: actualWarning.column,
+            endLine: postcssWarning?.endLine,
+            endColumn: postcssWarning?.endColumn,
+        };
+
+        strictEqual(actualWarning.text, expectedWarning.message);
+        (Object.keys(actualPositions) as (keyof typeof actualPositions)[]).forEach((position) => {
+            if (expectedWarning[position] != undefined) {
+                strictEqual(
+                    actualPositions[position],
+                    expectedWarning[position],
+                    `Warning ${position} mismatch for "${actualWarning.text}".`,
+                );
+            }
+        });
+    });
+}
+
+/** Shows each line which differs between the two given strings. */
+function createLineDiff(expected: string, actual: string): string {
+    const expectedLines = expected.split('\n');
+    const actualLines = actual.split('\n');
+
+    return Array.from({length: Math.max(expectedLines.length, actualLines.length)}, (_, index) => {
+        const expectedLine = expectedLines[index];
+        const actualLine = actualLines[index];
+        if (expectedLine === actualLine) {
+            return `  ${expectedLine}`;
+        }
+        return [
+            expectedLine == undefined ? undefined : `- ${expectedLine}`,
+            actualLine == undefined ? undefined : `+ ${actualLine}`,
+        ]
+            .filter((line): line is string => line != undefined)
+            .join('\n');
+    }).join('\n');
+}
+
+/**
+ * Verifies that a fix is stable: the rule doesn't report anything in the fixed code and fixing the
+ * fixed code again doesn't change it. Fixes which aren't stable keep changing files every time
+ * stylelint is run with fix enabled.
+ */
+async function assertStableFix(
+    ruleName: string,
+    linterOptions: Readonly<Partial<LinterOptions>>,
+    lintFixedCodeResult: Readonly<LintResult>,
+    fixedCode: string,
+): Promise<void> {
+    const remainingWarnings = lintFixedCodeResult.warnings
+        .filter((warning) => warning.rule === ruleName)
+        .map((warning) => `${warning.line}:${warning.column} ${warning.text}`);
+    if (remainingWarnings.length) {
+        throw new Error(
+            `The fixed code still has warnings from "${ruleName}":\n${remainingWarnings.join(
+                '\n',
+            )}\n\nFixed code:\n${fixedCode}`,
+        );
+    }
+
+    const fixedTwiceCode = getOutputCss(
+        await getSingleLintResult({...linterOptions, code: fixedCode, fix: true}),
+    );
+    if (fixedTwiceCode !== fixedCode) {
+        throw new Error(
+            `Fixing the fixed code again changed it. The fix for "${ruleName}" is not stable:\n${createLineDiff(
+                fixedCode,
+                fixedTwiceCode,
+            )}`,
+        );
+    }
+}
+
+async function runAcceptTestCase(
+    testRuleInput: Readonly<TestRuleInput<unknown>>,
+    linterOptions: Readonly<Partial<LinterOptions>>,
+): Promise<void> {
+    const result = await getSingleLintResult(linterOptions);
+    deepStrictEqual(
+        result.warnings.map((warning) => warning.text),
+        [],
+        'Expected no warnings.',
+    );
+    assertNoParseErrors(result);
+
+    // fix shouldn't change code in an "accept" test
+    if (testRuleInput.fix) {
+        const fixedResult = await getSingleLintResult({...linterOptions, fix: true});
+        strictEqual(getOutputCss(fixedResult), linterOptions.code);
+    }
+}
+
+async function runRejectTestCase(
+    testRuleInput: Readonly<TestRuleInput<unknown>>,
+    testCase: Readonly<RejectTestCase>,
+    linterOptions: Readonly<Partial<LinterOptions>>,
+    snapshotKey: string | undefined,
+): Promise<void> {
+    const result = await getSingleLintResult(linterOptions);
+    assertNoParseErrors(result);
+
+    if (testCase.warnings || testCase.message != undefined) {
+        assertWarnings(result, testCase.warnings || [testCase]);
+    } else if (snapshotKey) {
+        ok(result.warnings.length, 'Expected at least one warning.');
+    } else {
+        throw new Error('Reject test cases must have a message unless the test uses a snapshot.');
+    }
+
+    if (testCase.suggestions) {
+        deepStrictEqual(getActualSuggestions(result, testRuleInput.ruleName), testCase.suggestions);
+    }
+
+    if (!testRuleInput.fix) {
+        if (snapshotKey && testRuleInput.snapshot) {
+            matchRuleTestSnapshot(
+                testRuleInput.snapshot,
+                snapshotKey,
+                createRejectSnapshot(result, undefined),
+            );
+        }
+        return;
+    }
+    if (testCase.fixed == undefined && !testCase.unfixable && !snapshotKey) {
+        throw new Error(
+            `If "fix" is set to true, all reject cases must have fixed: '<fixed-code>' property.`,
+        );
+    }
+
+    const fixResult = await getSingleLintResult({...linterOptions, fix: true});
+    const fixedCode = getOutputCss(fixResult);
+    if (snapshotKey && testRuleInput.snapshot) {
+        matchRuleTestSnapshot(
+            testRuleInput.snapshot,
+            snapshotKey,
+            createRejectSnapshot(result, fixedCode),
+        );
+    }
+    if (testCase.unfixable) {
+        if (testCase.fixed != undefined) {
+            strictEqual(fixedCode, testCase.fixed);
+        }
+        strictEqual(fixedCode, testCase.code, 'Unfixable code should not be changed by fix.');
+    } else if (testCase.fixed != undefined) {
+        strictEqual(fixedCode, testCase.fixed);
+        notStrictEqual(fixedCode, testCase.code, 'Fix should change the code.');
+    }
+
+    // only warnings which couldn't be fixed should be reported on the fixed code
+    const lintFixedCodeResult = await getSingleLintResult({...linterOptions, code: fixedCode});
+    assertNoParseErrors(lintFixedCodeResult);
+    if (!testCase.unfixable) {
+        await assertStableFix(
+            testRuleInput.ruleName,
+            linterOptions,
+            lintFixedCodeResult,
+            fixedCode,
+        );
+    }
+    deepStrictEqual(lintFixedCodeResult.warnings, fixResult.warnings);
+}
+
+/**
+ * Creates linter options which enable only the given rule with the given options. When the rule
+ * itself is given, it is registered with stylelint in memory.
+ */
+export function createRuleLinterOptions(
+    input: Readonly<
+        Pick<TestRuleInput<unknown>, 'ruleName' | 'rule' | 'ruleOptions' | 'linterOptions'>
+    >,
+): Partial<LinterOptions> {
+    const config = input.linterOptions?.config;
+    // stylelint replaces pluginFunctions with the rules it loads from plugins
+    const inMemoryRule =
+        input.rule && !config?.plugins
+            ? {
+                  pluginFunctions: {
+                      ...config?.pluginFunctions,
+                      [input.rule.ruleName]: input.rule.rule,
+                  },
+              }
+            : {};
+    return {
+        ...input.linterOptions,
+        config: {
+            ...config,
+            ...inMemoryRule,
+            rules: {
+                [input.ruleName]: input.ruleOptions,
+            },
+        },
+    };
+}
+
+/**
+ * Creates runner independent test cases for the given rule test input. Each accept and reject test
+ * case becomes one RuleTestCase. Use testRule to register them with a test runner directly.
+ */
+export function createRuleTestCases<RuleOptions>(
+    testRuleInput: Readonly<TestRuleInput<RuleOptions>>,
+): RuleTestCase[] {
+    const ruleLinterOptions = createRuleLinterOptions(testRuleInput);
+
+    function createTestCase(
+        testType: 'accept' | 'reject',
+        testCase: Readonly<TestCase>,
+        run: (
+            linterOptions: Readonly<Partial<LinterOptions>>,
+            snapshotKey: string | undefined,
+        ) => Promise<void>,
+    ): RuleTestCase {
+        const describePath = [
+            testRuleInput.ruleName,
+            testType,
+            inspect(testRuleInput.ruleOptions),
+            testCase.code,
+        ];
+        const name = testCase.description || testRuleInput.description || 'no description';
+        const snapshotKey =
+            testRuleInput.snapshot && testType === 'reject'
+                ? createSnapshotKey(
+                      testRuleInput.snapshot,
+                      [
+                          ...describePath,
+                          name,
+                      ].join(' > '),
+                  )
+                : undefined;
+
+        return {
+            describePath,
+            name,
+            only: !!testCase.onlyRunThisTest,
+            skip: !!testCase.skipThisTest,
+            run: () => run({...ruleLinterOptions, code: testCase.code}, snapshotKey),
+        };
+    }
+
+    return [
+        ...testRuleInput.accept.map((testCase) =>
+            createTestCase('accept', testCase, (linterOptions) =>
+                runAcceptTestCase(testRuleInput, linterOptions),
+            ),
+        ),
+        ...testRuleInput.reject.map((testCase) =>
+            createTestCase('reject', testCase, (linterOptions, snapshotKey) =>
+                runRejectTestCase(testRuleInput, testCase, linterOptions, snapshotKey),
+            ),
+        ),
+    ];
+}
+
+/**
+ * Tests a rule with the given accept and reject test cases, including the suggestions of every
+ * reject test case which has a suggestions property.
+ *
+ * @param adapter Registers the tests with a test runner. Defaults to Jest.
+ */
+export function testRule<RuleOptions>(
+    testRuleInput: TestRuleInput<RuleOptions>,
+    adapter: TestRunnerAdapter = jestAdapter,
+): void {
+    adapter(createRuleTestCases(testRuleInput));
+}
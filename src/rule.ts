@@ -1,5 +1,23 @@
-import {Node, Root} from 'postcss';
-import {createPlugin, Plugin, PostcssResult, utils} from 'stylelint';
+import {Node, Root, WarningOptions} from 'postcss';
+import {createPlugin, Plugin, PostcssResult, RuleMeta, utils} from 'stylelint';
+import {createFixQueue, RuleFix} from './fix';
+import {OptionSchema} from './option-schema';
+import {
+    createProjectContext,
+    createProjectRunState,
+    ProjectContext,
+    ProjectContextOptions,
+    ProjectRunState,
+} from './project-context';
+import {reportInternalError, withRuleTimeout} from './rule-error';
+import {
+    ResolvedSuggestion,
+    resolveSuggestions,
+    RuleSuggestion,
+    suggestionsMessageKey,
+} from './suggestion';
+import {RuleHelpers, ruleHelpers} from './syntax-helpers';
+import {getViolationRange, RulePosition, ViolationRange} from './violation-range';
 
 /**
  * A stylelint rule. This is what is exported to stylelint from custom plugins. It is also used for
@@ -9,6 +27,37 @@ export type Rule<MessagesType extends BaseMessagesType> = {
     ruleName: string;
     rule: Plugin;
     messages: MessagesType;
+    /**
+     * Machine readable description of the rule's primary option. This is used to generate JSON
+     * Schemas and typings for stylelint configs.
+     */
+    optionsSchema?: OptionSchema | undefined;
+    /** Information about the rule for documentation and formatters. */
+    meta?: RuleMetadata | undefined;
+};
+
+/**
+ * Information about a rule. This is attached to the stylelint plugin's meta (where stylelint reads
+ * the url and deprecated properties) so that formatters can use it.
+ */
+export type RuleMetadata = {
+    /** Short summary of what the rule checks. */
+    description?: string | undefined;
+    /** Link to the rule's documentation. */
+    docsUrl?: string | undefined;
+    /** Whether the rule can fix its violations with stylelint's fix option. */
+    fixable?: boolean | undefined;
+    /** Grouping for the rule in documentation, such as "possible errors" or "stylistic issues". */
+    category?: string | undefined;
+    /** When true, a deprecation warning is emitted (once per lint run) whenever the rule is used. */
+    deprecated?: boolean | undefined;
+    /** Names of the rules which should be used instead of this one, if it is deprecated. */
+    replacedBy?: string[] | undefined;
+};
+
+/** The meta property stylelint reads from plugin functions, with this package's extra metadata. */
+export type PluginMeta = Omit<RuleMetadata, 'docsUrl'> & {
+    url?: RuleMeta['url'] | undefined;
 };
 
 /**
@@ -27,9 +76,39 @@ export type BaseMessagesType = {
 export type RuleViolation = {
     message: string;
     node: Node;
+    /** Where the violation starts in node.toString(). Without endIndex, one character is reported. */
     index?: number;
+    /** Where the violation ends (exclusive) in node.toString(). */
+    endIndex?: number | undefined;
+    /** Text in node.toString() to report. Its first occurrence is used. */
     word?: string;
     line?: number;
+    /**
+     * File positions of the violation, for ranges which are easier to find by line and column.
+     * These cannot be combined with index, endIndex, or word and must be inside the node.
+     */
+    start?: RulePosition | undefined;
+    end?: RulePosition | undefined;
+    /**
+     * How to fix this violation. When auto-fix is enabled, this is applied instead of reporting the
+     * violation. Otherwise it is ignored and the violation is reported. Using this instead of
+     * checking context.fix and mutating nodes directly allows conflicting fixes to be detected: a
+     * list of edits which conflicts with edits from an earlier violation is not applied and the
+     * violation is reported instead.
+     */
+    fix?: RuleFix | undefined;
+    /**
+     * Possible corrections which should not be applied blindly. These are never applied by
+     * auto-fix. Instead, each is resolved into the file's output with the suggestion applied and
+     * attached to the reported warning (see getWarningSuggestions) for editor integrations.
+     */
+    suggestions?: RuleSuggestion[] | undefined;
+};
+
+type LocatedViolation = {
+    violation: RuleViolation;
+    range: ViolationRange | undefined;
+    suggestions: ResolvedSuggestion[] | undefined;
 };
 
 /** A function that is called in order to report a stylelint rule violation */
@@ -56,6 +135,10 @@ export type RuleExecutionInfo<PrimaryOptionType, SecondaryOptionsType, OptionsCa
         root: Root;
         result: PostcssResult;
         optionsCallbackResult: OptionsCallbackResultType;
+        /** Parsers for imports, declaration values, and selectors which include source ranges. */
+        helpers: RuleHelpers;
+        /** Access to the files imported by the linted file and a cache shared across files. */
+        project: ProjectContext;
     };
 
 /**
@@ -98,13 +181,24 @@ type RuleOptionsCallback<PrimaryOptionType, SecondaryOptionsType> = (
     primaryOption: PrimaryOptionType,
     secondaryOptions: SecondaryOptionsType,
     context: RuleContext,
-) => (root: Root, result: PostcssResult) => void;
+) => (root: Root, result: PostcssResult) => void | PromiseLike<void>;
 
 export type OptionsCallback<OptionsCallbackResultType, PrimaryOptionType, SecondaryOptionsType> = (
     primary: PrimaryOptionType | undefined,
     secondary: SecondaryOptionsType | undefined,
 ) => OptionsCallbackResultType;
 
+function createPluginMeta({docsUrl, ...metadata}: Readonly<RuleMetadata>): PluginMeta {
+    return docsUrl ? {...metadata, url: docsUrl} : metadata;
+}
+
+function createDeprecationMessage(ruleName: string, meta: Readonly<RuleMetadata> | undefined) {
+    const replacements = meta?.replacedBy?.map((replacement) => `"${replacement}"`).join(', ');
+    return `The "${ruleName}" rule is deprecated${
+        replacements ? `, use ${replacements} instead` : ''
+    }.`;
+}
+
 /**
  * Creates a self contained rule which is directly given to stylelint as the plugin export.
  *
@@ -114,6 +208,13 @@ export type OptionsCallback<OptionsCallbackResultType, PrimaryOptionType, Second
  *   reported back to the user. This is also used for testing. Do not include the rule name suffix,
  *   it is added automatically. Example: { noUseVisibility: () => "Don't use the visibility
  *   property." invalidVisibilityValue: (value) => `Don't use visibility with value "${value}"` }
+ * @param optionsSchema Optional description of the primary option. This is not used to validate
+ *   options, it only describes them for generated JSON Schemas and typings. Example: {type: 'boolean'}
+ * @param meta Optional information about the rule. See RuleMetadata.
+ * @param timeout Optional number of milliseconds that an async ruleCallback may take. Rules which
+ *   take longer are reported as an internal error and their fixes are not applied.
+ * @param project Optional configuration for the project context, such as the file system which
+ *   imported files are read from. See ProjectContextOptions.
  * @param ruleCallback This is the actual rule. This is what stylelint will call when linting occurs
  *   with this rule loaded and enabled. This is a simplified and flattened version of stylelint's
  *   default "Plugin" type in order to reduce boilerplate and code duplication.
@@ -126,6 +227,10 @@ export function createRule<
 >(inputObject: {
     ruleName: string;
     messages: MessagesType;
+    optionsSchema?: OptionSchema | undefined;
+    meta?: RuleMetadata | undefined;
+    timeout?: number | undefined;
+    project?: ProjectContextOptions | undefined;
     ruleCallback: RuleCallback<
         PrimaryOptionType | undefined,
         SecondaryOptionsType | undefined,
@@ -146,6 +251,10 @@ export function createRule<
 >(inputObject: {
     ruleName: string;
     messages: MessagesType;
+    optionsSchema?: OptionSchema | undefined;
+    meta?: RuleMetadata | undefined;
+    timeout?: number | undefined;
+    project?: ProjectContextOptions | undefined;
     ruleCallback: RuleCallback<
         PrimaryOptionType | undefined,
         SecondaryOptionsType | undefined,
@@ -162,6 +271,10 @@ export function createRule<
 >(inputObject: {
     ruleName: string;
     messages: MessagesType;
+    optionsSchema?: OptionSchema | undefined;
+    meta?: RuleMetadata | undefined;
+    timeout?: number | undefined;
+    project?: ProjectContextOptions | undefined;
     ruleCallback: RuleCallback<
         PrimaryOptionType | undefined,
         SecondaryOptionsType | undefined,
@@ -181,32 +294,155 @@ export function createRule<
         inputObject.messages,
     );
 
+    const projectRunStates = new WeakMap<object, ProjectRunState>();
+    const getProjectRunState = (result: PostcssResult) => {
+        // lint runs share their config object between files
+        const config = result.stylelint?.config;
+        const runState = (config && projectRunStates.get(config)) || createProjectRunState();
+        if (config) {
+            projectRunStates.set(config, runState);
+        }
+        return runState;
+    };
+
+    const warnedDeprecationConfigs = new WeakSet<object>();
+    const warnDeprecation = (result: PostcssResult) => {
+        // warn once per lint run, which shares the config object between files
+        const config = result.stylelint?.config;
+        if (config) {
+            if (warnedDeprecationConfigs.has(config)) {
+                return;
+            }
+            warnedDeprecationConfigs.add(config);
+        }
+        // stylelint moves warnings of this type into the lint result's deprecations list
+        const warningOptions: WarningOptions & Record<string, unknown> = {
+            stylelintType: 'deprecation',
+            stylelintReference: inputObject.meta?.docsUrl,
+        };
+        result.warn(
+            createDeprecationMessage(inputObject.ruleName, inputObject.meta),
+            warningOptions,
+        );
+    };
+
     const plugin: RuleOptionsCallback<PrimaryOptionType, SecondaryOptionsType> = (
         primaryOption,
         secondaryOptions?,
         context?,
     ) => {
-        const optionsCallbackResult =
-            inputObject.optionsCallback &&
-            inputObject.optionsCallback(primaryOption, secondaryOptions);
-
         return (root, result) => {
+            if (inputObject.meta?.deprecated) {
+                warnDeprecation(result);
+            }
+            const fixQueue = createFixQueue<LocatedViolation>();
+            const reportToStylelint = ({
+                violation: {
+                    fix,
+                    suggestions: unresolvedSuggestions,
+                    endIndex,
+                    start,
+                    end,
+                    ...violation
+                },
+                range,
+                suggestions,
+            }: LocatedViolation) => {
+                const messageCount = result.messages.length;
+                utils.report({
+                    ...violation,
+                    // stylelint only finds the line from an index, which misses words on later lines
+                    ...(range && violation.line == undefined ? {line: range.start.line} : {}),
+                    result,
+                    ruleName: inputObject.ruleName,
+                });
+                // the report might have been disabled by a stylelint-disable comment
+                const reportedWarning = result.messages[messageCount];
+                if (range && reportedWarning) {
+                    // stylelint doesn't pass end positions on to postcss
+                    Object.assign(reportedWarning, {
+                        line: range.start.line,
+                        column: range.start.column,
+                        endLine: range.end.line,
+                        endColumn: range.end.column,
+                    });
+                }
+                if (suggestions && reportedWarning) {
+                    reportedWarning[suggestionsMessageKey] = suggestions;
+                }
+            };
+            // reports from async rules which have timed out or thrown are ignored
+            let isStopped = false;
             const reportCallback: ReportCallback = (violation) => {
-                utils.report({...violation, result, ruleName: inputObject.ruleName});
+                if (isStopped) {
+                    return;
+                }
+                // resolve the range and suggestions before fixing, which can change the root
+                const locatedViolation: LocatedViolation = {
+                    violation,
+                    range: getViolationRange(violation),
+                    suggestions: violation.suggestions?.length
+                        ? resolveSuggestions(violation.suggestions, result)
+                        : undefined,
+                };
+                if (violation.fix && context?.fix) {
+                    fixQueue.queue(violation.fix, locatedViolation);
+                } else {
+                    reportToStylelint(locatedViolation);
+                }
             };
-            return inputObject.ruleCallback(reportCallback, messageCallbacks, {
-                primaryOption,
-                secondaryOptions,
-                context: context || {},
-                root,
-                result,
-                optionsCallbackResult,
-            });
+            const applyFixes = () => {
+                fixQueue.applyAll().forEach(reportToStylelint);
+            };
+
+            const handleError = (error: unknown) => {
+                isStopped = true;
+                reportInternalError(error, inputObject.ruleName, root, result);
+            };
+
+            try {
+                const optionsCallbackResult =
+                    inputObject.optionsCallback &&
+                    inputObject.optionsCallback(primaryOption, secondaryOptions);
+                const callbackResult = inputObject.ruleCallback(reportCallback, messageCallbacks, {
+                    primaryOption,
+                    secondaryOptions,
+                    context: context || {},
+                    root,
+                    result,
+                    optionsCallbackResult,
+                    helpers: ruleHelpers,
+                    project: createProjectContext(
+                        getProjectRunState(result),
+                        result,
+                        inputObject.project,
+                    ),
+                });
+
+                if (callbackResult) {
+                    return withRuleTimeout(
+                        callbackResult,
+                        inputObject.ruleName,
+                        inputObject.timeout,
+                    )
+                        .then(applyFixes)
+                        .catch(handleError);
+                }
+                return applyFixes();
+            } catch (error) {
+                return handleError(error);
+            }
         };
     };
 
+    if (inputObject.meta) {
+        (plugin as Plugin & {meta?: PluginMeta}).meta = createPluginMeta(inputObject.meta);
+    }
+
     return {
         ...createPlugin(inputObject.ruleName, plugin as Plugin),
         messages: messageCallbacks,
+        ...(inputObject.optionsSchema ? {optionsSchema: inputObject.optionsSchema} : {}),
+        ...(inputObject.meta ? {meta: inputObject.meta} : {}),
     };
 }
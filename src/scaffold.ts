@@ -0,0 +1,173 @@
+import {existsSync, mkdirSync, readFileSync, writeFileSync} from 'fs';
+import {dirname, join, relative, sep} from 'path';
+
+/** Which kind of rule the scaffolding creates. */
+export enum ScaffoldRuleKind {
+    /** A rule created with createDefaultRule, tested with testDefaultRule. */
+    DEFAULT = 'default',
+    /** A rule created with createRule, tested with testRule. */
+    BARE = 'bare',
+}
+
+/** Values which are inserted into the templates. */
+type TemplateValues = {
+    ruleName: string;
+    prefix: string;
+    ruleFileName: string;
+    ruleVariableName: string;
+    optionsTypeName: string;
+    pluginPackImportPath: string;
+};
+
+/** Templates are shipped with the package so that scaffolding works offline. */
+export const templatesDir = join(__dirname, '..', 'templates');
+
+const ruleNameRegExp = /^([a-z][a-z0-9-]*)\/([a-z][a-z0-9-]*)$/;
+
+function toPascalCase(kebabCase: string): string {
+    return kebabCase
+        .split('-')
+        .map((word) => `${word.charAt(0).toUpperCase()}${word.slice(1)}`)
+        .join('');
+}
+
+function toImportPath(fromDir: string, toFile: string): string {
+    const importPath = relative(fromDir, toFile).replace(/\.ts$/, '').split(sep).join('/');
+    return importPath.startsWith('.') ? importPath : `./${importPath}`;
+}
+
+function renderTemplate(templateName: string, values: Readonly<TemplateValues>): string {
+    const template = readFileSync(join(templatesDir, `${templateName}.template`), 'utf8');
+    return template.replace(/\{\{(\w+)\}\}/g, (match, key: string) => {
+        if (!values.hasOwnProperty(key)) {
+            throw new Error(`Unknown template value "${key}" in ${templateName}`);
+        }
+        return values[key as keyof TemplateValues];
+    });
+}
+
+/** Finds the index of the bracket which closes the array that starts right before startIndex. */
+function findArrayEnd(contents: string, startIndex: number): number | undefined {
+    let depth = 1;
+    for (let index = startIndex; index < contents.length; index++) {
+        const character = contents[index];
+        if (character === '[') {
+            depth++;
+        } else if (character === ']' && !--depth) {
+            return index;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Adds the import and the rules array entry for a new rule to the contents of a module which
+ * creates a plugin pack with createPluginPack. The rule is added to the end of the rules array.
+ */
+function registerRuleInPluginPack(
+    packContents: string,
+    ruleVariableName: string,
+    ruleImportPath: string,
+): string {
+    const rulesArrayMatch = packContents.match(/^([ \t]*)rules: \[/m);
+    const arrayStart =
+        rulesArrayMatch?.index == undefined
+            ? undefined
+            : rulesArrayMatch.index + rulesArrayMatch[0]!.length;
+    const arrayEnd = arrayStart == undefined ? undefined : findArrayEnd(packContents, arrayStart);
+    if (!rulesArrayMatch || arrayStart == undefined || arrayEnd == undefined) {
+        throw new Error('Could not find the "rules: [" array in the plugin pack file.');
+    }
+    const indent = rulesArrayMatch[1] || '';
+    const existingEntries = packContents.slice(arrayStart, arrayEnd).trimEnd();
+    const separator = !existingEntries.trim() || existingEntries.endsWith(',') ? '' : ',';
+    const withRule = `${packContents.slice(
+        0,
+        arrayStart,
+    )}${existingEntries}${separator}\n${indent}    ${ruleVariableName},\n${indent}${packContents.slice(
+        arrayEnd,
+    )}`;
+
+    const importLine = `import {${ruleVariableName}} from '${ruleImportPath}';\n`;
+    const lastImportMatch = Array.from(withRule.matchAll(/^import .*;\n/gm)).pop();
+    const importIndex = lastImportMatch
+        ? (lastImportMatch.index ?? 0) + lastImportMatch[0]!.length
+        : 0;
+
+    return `${withRule.slice(0, importIndex)}${importLine}${withRule.slice(importIndex)}`;
+}
+
+/**
+ * Creates the files for a new rule from the templates shipped with this package: the rule itself, a
+ * test file, and its registration in the plugin pack. The plugin pack file is created if it doesn't
+ * exist yet.
+ *
+ * @param ruleName The full rule name, including the plugin prefix. Example: my-plugin/my-rule
+ * @param kind Whether to create a DefaultRule or a bare Rule
+ * @param rulesDir Directory in which a directory for the new rule is created
+ * @param pluginPackPath The file which creates the plugin pack
+ * @returns Paths of all the files that were created or modified
+ */
+export function scaffoldRule(inputs: {
+    ruleName: string;
+    kind: ScaffoldRuleKind;
+    rulesDir: string;
+    pluginPackPath: string;
+}): string[] {
+    const ruleNameMatch = inputs.ruleName.match(ruleNameRegExp);
+    if (!ruleNameMatch) {
+        throw new Error(
+            `Invalid rule name "${inputs.ruleName}". Rule names should be formatted like plugin-name/rule-name.`,
+        );
+    }
+    const [
+        ,
+        prefix,
+        ruleFileName,
+    ] = ruleNameMatch as [string, string, string];
+    const ruleDir = join(inputs.rulesDir, ruleFileName);
+    const ruleFilePath = join(ruleDir, `${ruleFileName}.rule.ts`);
+    const testFilePath = join(ruleDir, `${ruleFileName}.test.ts`);
+
+    [
+        ruleFilePath,
+        testFilePath,
+    ].forEach((filePath) => {
+        if (existsSync(filePath)) {
+            throw new Error(`"${filePath}" already exists.`);
+        }
+    });
+
+    const values: TemplateValues = {
+        ruleName: inputs.ruleName,
+        prefix,
+        ruleFileName,
+        ruleVariableName: `${toPascalCase(ruleFileName).replace(/^./, (first) =>
+            first.toLowerCase(),
+        )}Rule`,
+        optionsTypeName: `${toPascalCase(ruleFileName)}RuleOptions`,
+        pluginPackImportPath: toImportPath(ruleDir, inputs.pluginPackPath),
+    };
+
+    const packContents = existsSync(inputs.pluginPackPath)
+        ? readFileSync(inputs.pluginPackPath, 'utf8')
+        : renderTemplate('plugin-pack.ts', values);
+    // register before writing anything so that a pack file which can't be updated leaves no trace
+    const updatedPackContents = registerRuleInPluginPack(
+        packContents,
+        values.ruleVariableName,
+        toImportPath(dirname(inputs.pluginPackPath), ruleFilePath),
+    );
+
+    mkdirSync(ruleDir, {recursive: true});
+    mkdirSync(dirname(inputs.pluginPackPath), {recursive: true});
+    writeFileSync(ruleFilePath, renderTemplate(`${inputs.kind}-rule.rule.ts`, values));
+    writeFileSync(testFilePath, renderTemplate(`${inputs.kind}-rule.test.ts`, values));
+    writeFileSync(inputs.pluginPackPath, updatedPackContents);
+
+    return [
+        ruleFilePath,
+        testFilePath,
+        inputs.pluginPackPath,
+    ];
+}
@@ -0,0 +1,145 @@
+import {Document, Node, Root} from 'postcss';
+import {LintResult, PostcssResult} from 'stylelint';
+import {createFixQueue, RuleEdit} from './fix';
+import {getPostcssResult} from './lint-result';
+
+/**
+ * A possible correction for a violation which should not be applied blindly. Suggestions are never
+ * applied by auto-fix, they are only attached to the reported warning for editor integrations.
+ */
+export type RuleSuggestion = {
+    /** Short identifier for the suggestion, such as "use-uppercase". */
+    name: string;
+    /** Human readable explanation of what the suggestion does. */
+    description: string;
+    /** The edits which make up the suggestion. */
+    edits: RuleEdit[];
+};
+
+/** A RuleSuggestion after it has been attached to a warning, with its edits resolved to output. */
+export type ResolvedSuggestion = {
+    name: string;
+    description: string;
+    /** The full file contents with the suggestion's edits applied. */
+    output: string;
+};
+
+/** A reported warning along with the suggestions that were attached to it. */
+export type WarningSuggestions = {
+    rule: string;
+    text: string;
+    line: number | undefined;
+    column: number | undefined;
+    suggestions: ResolvedSuggestion[];
+};
+
+/** Property on postcss warning messages which resolved suggestions are stored under. */
+export const suggestionsMessageKey = 'suggestions';
+
+function getNodePath(node: Node, root: Root | Document): number[] | undefined {
+    const path: number[] = [];
+    let current: Node = node;
+
+    while (current !== root) {
+        const parent = current.parent as Node | undefined;
+        if (!parent || !('index' in parent)) {
+            return undefined;
+        }
+        path.unshift((parent as Root).index(current as Root['nodes'][number]));
+        current = parent;
+    }
+
+    return path;
+}
+
+function findNodeByPath(root: Root | Document, path: number[]): Node | undefined {
+    return path.reduce((current: Node | undefined, index) => {
+        return current && 'nodes' in current ? (current as Root).nodes[index] : undefined;
+    }, root);
+}
+
+function mapEditToClone(
+    edit: RuleEdit,
+    originalRoot: Root | Document,
+    clonedRoot: Root | Document,
+): RuleEdit | undefined {
+    const path = getNodePath(edit.node, originalRoot);
+    const clonedNode = path && findNodeByPath(clonedRoot, path);
+    if (!clonedNode) {
+        return undefined;
+    }
+
+    if (edit.type === 'replace-node') {
+        const replacement = Array.isArray(edit.replacement)
+            ? edit.replacement.map((node) => node.clone())
+            : edit.replacement.clone();
+        return {...edit, node: clonedNode, replacement};
+    }
+    return {...edit, node: clonedNode};
+}
+
+/**
+ * Resolves each suggestion into the output that the whole file would have if the suggestion was
+ * applied. The original nodes are not modified.
+ *
+ * @param suggestions The suggestions attached to a violation
+ * @param result The postcss result for the file being linted
+ * @returns Resolved suggestions. Suggestions with edits outside of the result's root, or edits
+ *   which conflict with each other, are left out.
+ */
+export function resolveSuggestions(
+    suggestions: ReadonlyArray<RuleSuggestion>,
+    result: PostcssResult,
+): ResolvedSuggestion[] {
+    const originalRoot = result.root as Root | Document;
+
+    return suggestions.reduce((accum: ResolvedSuggestion[], suggestion) => {
+        const clonedRoot = originalRoot.clone();
+        const clonedEdits = suggestion.edits.map((edit) =>
+            mapEditToClone(edit, originalRoot, clonedRoot),
+        );
+        if (clonedEdits.some((edit) => !edit)) {
+            return accum;
+        }
+
+        const fixQueue = createFixQueue<RuleEdit>();
+        (clonedEdits as RuleEdit[]).forEach((edit) => fixQueue.queue([edit], edit));
+        if (fixQueue.applyAll().length) {
+            return accum;
+        }
+
+        return accum.concat({
+            name: suggestion.name,
+            description: suggestion.description,
+            output: clonedRoot.toString(result.opts?.syntax),
+        });
+    }, []);
+}
+
+/**
+ * Gets all the warnings reported to the given result which have suggestions attached.
+ *
+ * @param result A stylelint LintResult or a postcss result
+ */
+export function getWarningSuggestions(
+    result: Readonly<LintResult> | PostcssResult | undefined,
+): WarningSuggestions[] {
+    const postcssResult = getPostcssResult(result);
+    if (!postcssResult) {
+        return [];
+    }
+    return postcssResult.messages
+        .filter(
+            (message) =>
+                message.type === 'warning' && Array.isArray(message[suggestionsMessageKey]),
+        )
+        .map((message) => {
+            return {
+                rule: message.rule,
+                text: message.text,
+                line: message.line,
+                column: message.column,
+                suggestions: message[suggestionsMessageKey],
+            };
+        });
+}
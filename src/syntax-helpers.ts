@@ -0,0 +1,244 @@
+import {AtRule, Declaration, Node, Rule as PostcssRule} from 'postcss';
+import selectorParser from 'postcss-selector-parser';
+import valueParser, {Node as ValueNode, ParsedValue} from 'postcss-value-parser';
+
+/** Where a parsed piece of a node is in the node's source. */
+export type SourceRange = {
+    /**
+     * Offsets into the parsed node property (an at-rule's params, a declaration's value, or a
+     * rule's selector). Use these for replace-text RuleEdits.
+     */
+    start: number;
+    end: number;
+    /** Offsets into node.toString(). Use these when reporting violations. */
+    index: number;
+    endIndex: number;
+};
+
+/** At-rules which import another file. */
+export type ImportAtRuleName = 'import' | 'use' | 'forward';
+
+const importAtRuleNames: ReadonlyArray<ImportAtRuleName> = [
+    'import',
+    'use',
+    'forward',
+];
+
+/** A single file imported by an @import, @use, or @forward at-rule. */
+export type ParsedImport = {
+    type: ImportAtRuleName;
+    /** The imported file or url, without quotes or url(). */
+    url: string;
+    urlRange: SourceRange;
+    /** The media query list after the url. Only @import has media queries. */
+    media: string | undefined;
+    mediaRange: SourceRange | undefined;
+    /** Less import options, such as "reference" from @import (reference) "file". */
+    lessOptions: string[];
+};
+
+/** A declaration's parsed value. Use parsed.walk to visit every value node. */
+export type ParsedDeclarationValue = {
+    parsed: ParsedValue;
+    rangeOf: (valueNode: Readonly<ValueNode>) => SourceRange;
+};
+
+/** A rule's parsed selector. Use root.walk to visit every selector node. */
+export type ParsedSelector = {
+    root: selectorParser.Root;
+    /** Undefined for empty selector nodes, which don't have a position. */
+    rangeOf: (selectorNode: Readonly<selectorParser.Node>) => SourceRange | undefined;
+};
+
+function createSourceRange(start: number, end: number, propertyIndex: number): SourceRange {
+    return {start, end, index: propertyIndex + start, endIndex: propertyIndex + end};
+}
+
+/** Index of an at-rule's params in its toString() output. */
+function getParamsIndex(atRule: Readonly<AtRule>): number {
+    return `@${atRule.name}${atRule.raws.afterName ?? ' '}`.length;
+}
+
+/** Index of a declaration's value in its toString() output. */
+function getValueIndex(decl: Readonly<Declaration>): number {
+    return `${decl.prop}${decl.raws.between ?? ': '}`.length;
+}
+
+function splitOnCommas(nodes: ReadonlyArray<ValueNode>): ValueNode[][] {
+    return nodes.reduce(
+        (groups: ValueNode[][], node) => {
+            if (node.type === 'div' && node.value === ',') {
+                groups.push([]);
+            } else {
+                groups[groups.length - 1]!.push(node);
+            }
+            return groups;
+        },
+        [[]],
+    );
+}
+
+/** Finds the range of the url text inside a string or url() node, excluding quotes. */
+function getUrlRange(urlNode: Readonly<ValueNode>): {start: number; end: number} | undefined {
+    if (urlNode.type === 'string') {
+        return {
+            start: urlNode.sourceIndex + 1,
+            end: urlNode.unclosed ? urlNode.sourceEndIndex : urlNode.sourceEndIndex - 1,
+        };
+    }
+    if (urlNode.type === 'function' && urlNode.value.toLowerCase() === 'url') {
+        const innerNode = urlNode.nodes.find((node) => node.type !== 'space');
+        if (!innerNode) {
+            return undefined;
+        }
+        // unquoted urls are parsed as words
+        return (
+            getUrlRange(innerNode) ?? {start: innerNode.sourceIndex, end: innerNode.sourceEndIndex}
+        );
+    }
+    return undefined;
+}
+
+function parseImportGroup(
+    atRule: Readonly<AtRule>,
+    type: ImportAtRuleName,
+    nodes: ReadonlyArray<ValueNode>,
+): ParsedImport | undefined {
+    const paramsIndex = getParamsIndex(atRule);
+    const urlNodeIndex = nodes.findIndex((node) => getUrlRange(node));
+    const urlRange = urlNodeIndex === -1 ? undefined : getUrlRange(nodes[urlNodeIndex]!);
+    if (!urlRange) {
+        return undefined;
+    }
+
+    const lessOptions = nodes
+        .slice(0, urlNodeIndex)
+        .filter((node): node is valueParser.FunctionNode => node.type === 'function' && !node.value)
+        .flatMap((optionsNode) =>
+            optionsNode.nodes.filter((node) => node.type === 'word').map((node) => node.value),
+        );
+
+    const mediaNodes =
+        type === 'import'
+            ? nodes.slice(urlNodeIndex + 1).filter((node) => node.type !== 'space')
+            : [];
+    const firstMediaNode = mediaNodes[0];
+    const lastMediaNode = mediaNodes[mediaNodes.length - 1];
+    const mediaRange =
+        firstMediaNode && lastMediaNode
+            ? createSourceRange(
+                  firstMediaNode.sourceIndex,
+                  lastMediaNode.sourceEndIndex,
+                  paramsIndex,
+              )
+            : undefined;
+
+    return {
+        type,
+        url: atRule.params.slice(urlRange.start, urlRange.end),
+        urlRange: createSourceRange(urlRange.start, urlRange.end, paramsIndex),
+        media: mediaRange && atRule.params.slice(mediaRange.start, mediaRange.end),
+        mediaRange,
+        lessOptions,
+    };
+}
+
+/**
+ * Parses the files imported by an @import, @use, or @forward at-rule. Multiple files are only
+ * possible with comma separated @imports. Unquoted urls which aren't wrapped in url() are not included.
+ *
+ * @returns An empty array for other at-rules.
+ */
+export function parseImports(atRule: Readonly<AtRule>): ParsedImport[] {
+    const type = importAtRuleNames.find((name) => name === atRule.name.toLowerCase());
+    if (!type) {
+        return [];
+    }
+    const groups = splitOnCommas(valueParser(atRule.params).nodes);
+
+    return (type === 'import' ? groups : groups.slice(0, 1))
+        .map((nodes) => parseImportGroup(atRule, type, nodes))
+        .filter((parsedImport): parsedImport is ParsedImport => !!parsedImport);
+}
+
+/**
+ * Parses a declaration's value with postcss-value-parser. Offsets are into decl.value, so they can
+ * be off when the raw value contains comments.
+ */
+export function parseValue(decl: Readonly<Declaration>): ParsedDeclarationValue {
+    const valueIndex = getValueIndex(decl);
+
+    return {
+        parsed: valueParser(decl.value),
+        rangeOf: (valueNode) =>
+            createSourceRange(valueNode.sourceIndex, valueNode.sourceEndIndex, valueIndex),
+    };
+}
+
+function getSelectorNodeRange(
+    selectorNode: Readonly<selectorParser.Node>,
+): {start: number; end: number} | undefined {
+    if (selectorNode.sourceIndex != undefined) {
+        const spaces = selectorNode.spaces;
+        return {
+            start: selectorNode.sourceIndex,
+            end:
+                selectorNode.sourceIndex +
+                selectorNode.toString().length -
+                spaces.before.length -
+                spaces.after.length,
+        };
+    }
+    // containers such as selectors don't have their own source index
+    if (selectorParser.isContainer(selectorNode)) {
+        const firstRange = selectorNode.first && getSelectorNodeRange(selectorNode.first);
+        const lastRange = selectorNode.last && getSelectorNodeRange(selectorNode.last);
+        return firstRange && lastRange ? {start: firstRange.start, end: lastRange.end} : undefined;
+    }
+    return undefined;
+}
+
+/**
+ * Parses a rule's selector with postcss-selector-parser. Offsets are into rule.selector, so they
+ * can be off when the raw selector contains comments.
+ */
+export function parseSelector(rule: Readonly<PostcssRule>): ParsedSelector {
+    return {
+        root: selectorParser().astSync(rule.selector),
+        rangeOf: (selectorNode) => {
+            const range = getSelectorNodeRange(selectorNode);
+            // the selector is at the very start of a rule's toString() output
+            return range && createSourceRange(range.start, range.end, 0);
+        },
+    };
+}
+
+/**
+ * Finds the range of a substring in node.toString(), for reporting violations on only part of a
+ * node. Like String.indexOf, the search starts at fromIndex.
+ *
+ * @returns Undefined when the substring isn't in the node.
+ */
+export function getSubstringRange(
+    node: Readonly<Node>,
+    substring: string,
+    fromIndex = 0,
+): Pick<SourceRange, 'index' | 'endIndex'> | undefined {
+    const index = node.toString().indexOf(substring, fromIndex);
+    return index === -1 ? undefined : {index, endIndex: index + substring.length};
+}
+
+/** Helpers for parsing nodes, given to every rule callback in its execution info. */
+export type RuleHelpers = {
+    parseImports: typeof parseImports;
+    parseValue: typeof parseValue;
+    parseSelector: typeof parseSelector;
+    getSubstringRange: typeof getSubstringRange;
+};
+
+export const ruleHelpers: Readonly<RuleHelpers> = {
+    parseImports,
+    parseValue,
+    parseSelector,
+    getSubstringRange,
+};
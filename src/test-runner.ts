@@ -0,0 +1,135 @@
+/**
+ * A single test which doesn't depend on any specific test runner. These are created by
+ * createRuleTestCases and createDefaultRuleTestCases and then registered with a test runner through
+ * a TestRunnerAdapter.
+ */
+export type RuleTestCase = {
+    /** Names of the nested describe blocks which the test is placed in, outermost first. */
+    describePath: string[];
+    name: string;
+    only: boolean;
+    skip: boolean;
+    /** Rejects (or throws) when the test fails. */
+    run: () => Promise<void>;
+};
+
+/** Registers runner independent test cases with a specific test runner. */
+export type TestRunnerAdapter = (testCases: ReadonlyArray<Readonly<RuleTestCase>>) => void;
+
+/** The minimal describe/it api that every supported test runner provides. */
+export type TestRunnerApi = {
+    describe: (name: string, callback: () => void) => void;
+    it: (
+        name: string,
+        options: Readonly<Pick<RuleTestCase, 'only' | 'skip'>>,
+        run: () => Promise<void>,
+    ) => void;
+};
+
+type DescribeTree = {
+    testCases: Readonly<RuleTestCase>[];
+    children: Map<string, DescribeTree>;
+};
+
+function createDescribeTree(testCases: ReadonlyArray<Readonly<RuleTestCase>>): DescribeTree {
+    const rootTree: DescribeTree = {testCases: [], children: new Map()};
+
+    testCases.forEach((testCase) => {
+        const tree = testCase.describePath.reduce((parent, describeName) => {
+            const existingChild = parent.children.get(describeName);
+            if (existingChild) {
+                return existingChild;
+            }
+            const child: DescribeTree = {testCases: [], children: new Map()};
+            parent.children.set(describeName, child);
+            return child;
+        }, rootTree);
+        tree.testCases.push(testCase);
+    });
+
+    return rootTree;
+}
+
+function registerDescribeTree(tree: Readonly<DescribeTree>, runner: Readonly<TestRunnerApi>) {
+    tree.testCases.forEach((testCase) => {
+        runner.it(testCase.name, {only: testCase.only, skip: testCase.skip}, testCase.run);
+    });
+    tree.children.forEach((child, describeName) => {
+        runner.describe(describeName, () => registerDescribeTree(child, runner));
+    });
+}
+
+/**
+ * Registers the given test cases with any test runner that provides describe and it functions. Test
+ * cases which share describe names are grouped into the same describe blocks.
+ */
+export function registerTestCases(
+    testCases: ReadonlyArray<Readonly<RuleTestCase>>,
+    runner: Readonly<TestRunnerApi>,
+): void {
+    registerDescribeTree(createDescribeTree(testCases), runner);
+}
+
+type GlobalIt = {
+    (name: string, run: () => Promise<void>): void;
+    only: (name: string, run: () => Promise<void>) => void;
+    skip: (name: string, run: () => Promise<void>) => void;
+};
+
+/** Jest and Mocha both provide describe, it, it.only, and it.skip as globals. */
+function createGlobalsAdapter(runnerName: string): TestRunnerAdapter {
+    return (testCases) => {
+        const globals = globalThis as unknown as Partial<{
+            describe: TestRunnerApi['describe'];
+            it: GlobalIt;
+        }>;
+        const globalDescribe = globals.describe;
+        const globalIt = globals.it;
+        if (!globalDescribe || !globalIt) {
+            throw new Error(
+                `${runnerName} globals "describe" and "it" were not found. Make sure the tests are running in ${runnerName}.`,
+            );
+        }
+
+        registerTestCases(testCases, {
+            describe: globalDescribe,
+            it: (name, options, run) => {
+                const itTest = options.only
+                    ? globalIt.only
+                    : options.skip
+                    ? globalIt.skip
+                    : globalIt;
+                itTest(name, run);
+            },
+        });
+    };
+}
+
+/** Registers test cases with Jest. This is the default adapter. */
+export const jestAdapter: TestRunnerAdapter = createGlobalsAdapter('Jest');
+
+/** Registers test cases with Mocha. */
+export const mochaAdapter: TestRunnerAdapter = createGlobalsAdapter('Mocha');
+
+/**
+ * Registers test cases with Node.js's built in test runner. Note that Node.js only respects "only"
+ * when run with the --test-only flag.
+ */
+export const nodeTestAdapter: TestRunnerAdapter = (testCases) => {
+    // loaded lazily so that the other adapters work on Node.js versions without node:test
+    const nodeTest: {
+        describe: TestRunnerApi['describe'];
+        it: (
+            name: string,
+            options: Readonly<{only?: boolean; skip: boolean}>,
+            run: () => Promise<void>,
+        ) => void;
+    } = require('node:test');
+
+    registerTestCases(testCases, {
+        describe: (name, callback) => nodeTest.describe(name, callback),
+        // node:test warns about any only option, even false ones, without --test-only
+        it: (name, options, run) =>
+            nodeTest.it(name, {skip: options.skip, ...(options.only ? {only: true} : {})}, run),
+    });
+};
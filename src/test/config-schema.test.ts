@@ -0,0 +1,173 @@
+import {
+    createPluginPackJsonSchema,
+    createPluginPackTypings,
+    optionSchemaToJsonSchema,
+    optionSchemaToTypeScript,
+} from '../config-schema';
+import {OptionSchema} from '../option-schema';
+import {createPluginPack} from '../plugin-pack';
+import {fileNameStartsWithRule} from './rules/file-name-starts-with/file-name-starts-with.rule';
+import {uppercaseHexColorsRule} from './rules/uppercase-hex-colors/uppercase-hex-colors.rule';
+import {visibilityRule} from './rules/visibility/visibility.rule';
+import testPlugin from './test-plugin';
+
+const exampleSchema: OptionSchema = {
+    type: 'object',
+    properties: {
+        mode: {
+            type: 'string',
+            enum: [
+                'on',
+                'off',
+            ],
+            description: 'The mode.',
+        },
+        sizes: {type: 'array', items: {type: 'number'}, optional: true},
+        names: {
+            type: 'array',
+            items: {
+                type: 'oneOf',
+                options: [
+                    {type: 'string'},
+                    {type: 'boolean'},
+                ],
+            },
+        },
+        'kebab-case': {type: 'boolean', optional: true},
+    },
+};
+
+describe(optionSchemaToJsonSchema.name, () => {
+    it('should convert each schema type', () => {
+        expect(optionSchemaToJsonSchema(exampleSchema)).toEqual({
+            type: 'object',
+            properties: {
+                mode: {
+                    description: 'The mode.',
+                    type: 'string',
+                    enum: [
+                        'on',
+                        'off',
+                    ],
+                },
+                sizes: {type: 'array', items: {type: 'number'}},
+                names: {
+                    type: 'array',
+                    items: {
+                        anyOf: [
+                            {type: 'string'},
+                            {type: 'boolean'},
+                        ],
+                    },
+                },
+                'kebab-case': {type: 'boolean'},
+            },
+            required: [
+                'mode',
+                'names',
+            ],
+            additionalProperties: false,
+        });
+    });
+});
+
+describe(optionSchemaToTypeScript.name, () => {
+    it('should convert each schema type', () => {
+        expect(optionSchemaToTypeScript(exampleSchema)).toBe(
+            [
+                '{',
+                '    /** The mode. */',
+                "    mode: 'on' | 'off';",
+                '    sizes?: number[];',
+                '    names: (string | boolean)[];',
+                "    'kebab-case'?: boolean;",
+                '}',
+            ].join('\n'),
+        );
+    });
+});
+
+describe(createPluginPackJsonSchema.name, () => {
+    it('should describe each rule in the pack', () => {
+        const jsonSchema = createPluginPackJsonSchema(testPlugin);
+        const ruleSchemas = jsonSchema.properties?.rules?.properties;
+
+        expect(Object.keys(ruleSchemas || {})).toEqual(testPlugin.map((rule) => rule.ruleName));
+        expect(ruleSchemas?.[fileNameStartsWithRule.ruleName]?.anyOf?.slice(0, 3)).toEqual([
+            {type: 'null'},
+            {type: 'boolean'},
+            optionSchemaToJsonSchema(fileNameStartsWithRule.optionsSchema),
+        ]);
+        expect(ruleSchemas?.[uppercaseHexColorsRule.ruleName]?.description).toBe(
+            uppercaseHexColorsRule.meta?.description,
+        );
+        expect(ruleSchemas?.[visibilityRule.ruleName]?.anyOf?.[1]).toEqual(
+            optionSchemaToJsonSchema(visibilityRule.optionsSchema!),
+        );
+    });
+    it('should accept secondary options with the primary option of DefaultRules', () => {
+        const ruleSchema =
+            createPluginPackJsonSchema(testPlugin).properties?.rules?.properties?.[
+                fileNameStartsWithRule.ruleName
+            ];
+
+        expect(ruleSchema?.anyOf?.[3]).toEqual({
+            type: 'array',
+            items: [
+                {
+                    anyOf: [
+                        {type: 'boolean'},
+                        optionSchemaToJsonSchema(fileNameStartsWithRule.optionsSchema),
+                    ],
+                },
+                {type: 'object'},
+            ],
+            minItems: 1,
+            maxItems: 2,
+        });
+    });
+});
+
+describe(createPluginPackTypings.name, () => {
+    it('should create a type for each rule in the pack', () => {
+        const pack = createPluginPack({
+            prefix: 'rule-creator',
+            pluginPath: __filename,
+            rules: [visibilityRule],
+        });
+
+        expect(createPluginPackTypings(pack, 'TestPluginRules')).toBe(
+            [
+                '/** Rules provided by the "rule-creator" stylelint plugin. */',
+                'export type TestPluginRules = {',
+                "    'rule-creator/visibility'?: null | boolean | [boolean, Record<string, unknown>?];",
+                '};',
+                '',
+            ].join('\n'),
+        );
+    });
+
+    it('should include the options of DefaultRules', () => {
+        expect(createPluginPackTypings(testPlugin)).toContain(
+            [
+                "    'rule-creator/file-name-starts-with'?: null | boolean | {",
+                '        startWith?: string;',
+                '        /** Whether the rule is off, requires its check, or blocks it. */',
+                "        mode: 'off' | 'require' | 'block';",
+            ].join('\n'),
+        );
+    });
+
+    it('should accept secondary options with the primary option of DefaultRules', () => {
+        const pack = createPluginPack({
+            prefix: 'rule-creator',
+            pluginPath: __filename,
+            rules: [uppercaseHexColorsRule],
+        });
+        const typings = createPluginPackTypings(pack);
+
+        expect(typings).toContain("    'rule-creator/uppercase-hex-colors'?: null | boolean | {\n");
+        expect(typings).toContain('} | [boolean | {\n');
+        expect(typings).toContain('}, Record<string, unknown>?];\n');
+    });
+});
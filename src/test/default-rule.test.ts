@@ -0,0 +1,225 @@
+import {mkdtempSync, rmSync, writeFileSync} from 'fs';
+import {tmpdir} from 'os';
+import {join} from 'path';
+import {lint} from 'stylelint';
+import {createDefaultRule, DefaultOptionMode} from '../default-rule';
+import {getIgnoredReportCounts} from '../ignore-comments';
+import {fileNameStartsWithRule} from './rules/file-name-starts-with/file-name-starts-with.rule';
+import {uppercaseHexColorsRule} from './rules/uppercase-hex-colors/uppercase-hex-colors.rule';
+import testPlugin from './test-plugin';
+
+describe('invalid options reporting', () => {
+    const tempDirs: string[] = [];
+    afterEach(() => {
+        tempDirs.splice(0).forEach((tempDir) => rmSync(tempDir, {recursive: true, force: true}));
+    });
+
+    it('should only report invalid options once per lint run', async () => {
+        const tempDir = mkdtempSync(join(tmpdir(), 'rule-creator-'));
+        tempDirs.push(tempDir);
+        const filePaths = [
+            'a.css',
+            'b.css',
+        ].map((fileName) => {
+            const filePath = join(tempDir, fileName);
+            writeFileSync(filePath, `@import "colors";\n`);
+            return filePath;
+        });
+
+        const lintResult = await lint({
+            files: filePaths,
+            config: {
+                plugins: [testPlugin.pluginPath],
+                // cspell:disable-next-line
+                rules: {[fileNameStartsWithRule.ruleName]: {mode: 'requre'}},
+            },
+        });
+
+        const warnings = lintResult.results.flatMap((result) => result.warnings);
+        expect(warnings.map((warning) => warning.text)).toEqual([
+            fileNameStartsWithRule.messages.invalidOptions({
+                path: 'mode',
+                expected: 'one of "off", "require", "block"',
+                // cspell:disable-next-line
+                received: '"requre"',
+                hint: "did you mean 'require'?",
+            }),
+        ]);
+    });
+
+    it('should name unknown options', async () => {
+        const lintResult = await lint({
+            code: `@import "_colors";`,
+            config: {
+                plugins: [testPlugin.pluginPath],
+                rules: {[fileNameStartsWithRule.ruleName]: {mode: 'require', startsWith: '_'}},
+            },
+        });
+
+        expect(lintResult.results[0]?.warnings.map((warning) => warning.text)).toEqual([
+            `Invalid option: Unknown option "startsWith" (did you mean 'startWith'?) (${fileNameStartsWithRule.ruleName})`,
+        ]);
+    });
+
+    it('should report exception patterns which fail to parse', async () => {
+        const lintResult = await lint({
+            code: `a { color: #abc; }`,
+            config: {
+                plugins: [testPlugin.pluginPath],
+                rules: {
+                    [uppercaseHexColorsRule.ruleName]: {
+                        mode: 'require',
+                        lineExceptions: [
+                            'a*',
+                            {regex: '(unclosed'},
+                        ],
+                    },
+                },
+            },
+        });
+
+        expect(lintResult.results[0]?.warnings.map((warning) => warning.text)).toEqual([
+            uppercaseHexColorsRule.messages.invalidOptions({
+                path: 'lineExceptions[1]',
+                expected: 'a valid exception pattern',
+                received: '{"regex":"(unclosed"}',
+                hint: 'Invalid regular expression: /(unclosed/: Unterminated group',
+            }),
+        ]);
+    });
+});
+
+describe('ignored report counts', () => {
+    it('should count reports dropped by ignore comments and line exceptions', async () => {
+        const lintResult = await lint({
+            code: `
+                a {
+                    /* rule-creator-ignore-next-line */
+                    color: #fff;
+                    background: #eee;
+                    border-color: #ddd;
+                }
+            `,
+            config: {
+                plugins: [testPlugin.pluginPath],
+                rules: {
+                    [uppercaseHexColorsRule.ruleName]: {
+                        mode: 'require',
+                        lineExceptions: ['*#eee*'],
+                    },
+                },
+            },
+        });
+
+        const result = lintResult.results[0];
+        expect(result?.warnings.map((warning) => warning.text)).toEqual([
+            uppercaseHexColorsRule.messages.shouldBeUppercase('#ddd'),
+        ]);
+        expect(getIgnoredReportCounts(result)).toEqual({
+            [uppercaseHexColorsRule.ruleName]: {lineExceptions: 1, ignoreComments: 1},
+        });
+    });
+});
+
+describe('violation lines', () => {
+    // reports on the whole rule, with the word on a later line than the rule itself
+    const blueRule = createDefaultRule({
+        ruleName: 'rule-creator/no-blue-in-rules',
+        messages: {noBlue: () => 'No blue.'},
+        defaultOptions: {mode: DefaultOptionMode.REQUIRE},
+        optionsSchema: {},
+        ruleCallback: (report, messages, {root}) => {
+            root.walkRules((rule) => {
+                if (rule.toString().includes('blue')) {
+                    report({message: messages.noBlue(), node: rule, word: 'blue'});
+                }
+            });
+        },
+    });
+
+    async function getWarningLines(code: string, lineExceptions: string[] = []) {
+        const lintResult = await lint({
+            code,
+            config: {
+                pluginFunctions: {[blueRule.ruleName]: blueRule.rule},
+                rules: {[blueRule.ruleName]: {mode: DefaultOptionMode.REQUIRE, lineExceptions}},
+            },
+        });
+
+        return lintResult.results[0]?.warnings.map((warning) => warning.line);
+    }
+
+    const code = `a {\n    color: red;\n    background: blue;\n}`;
+
+    it('should report on the line of the word', async () => {
+        expect(await getWarningLines(code)).toEqual([3]);
+    });
+
+    it('should apply ignore comments to the line of the word', async () => {
+        expect(
+            await getWarningLines(
+                `a {\n    color: red;\n    /* rule-creator-ignore-next-line */\n    background: blue;\n}`,
+            ),
+        ).toEqual([]);
+    });
+
+    it('should match line exceptions against the line of the word', async () => {
+        expect(await getWarningLines(code, ['background: blue;'])).toEqual([]);
+    });
+});
+
+describe('severity overrides', () => {
+    async function getSeverities(severity?: string): Promise<(string | undefined)[]> {
+        const lintResult = await lint({
+            code: `a { color: #abc; }`,
+            config: {
+                plugins: [testPlugin.pluginPath],
+                defaultSeverity: 'warning',
+                rules: {
+                    [uppercaseHexColorsRule.ruleName]: {
+                        mode: 'require',
+                        ...(severity ? {severity} : {}),
+                    },
+                },
+            },
+        });
+
+        return lintResult.results[0]?.warnings.map((warning) => warning.severity) || [];
+    }
+
+    it('should use the severity from the config by default', async () => {
+        expect(await getSeverities()).toEqual(['warning']);
+    });
+
+    it('should use the severity from the rule options', async () => {
+        expect(await getSeverities('error')).toEqual(['error']);
+    });
+});
+
+describe('file includes', () => {
+    async function getWarningCount(codeFilename: string): Promise<number | undefined> {
+        const lintResult = await lint({
+            code: `a { color: #abc; }`,
+            codeFilename,
+            config: {
+                plugins: [testPlugin.pluginPath],
+                rules: {
+                    [uppercaseHexColorsRule.ruleName]: {
+                        mode: 'require',
+                        fileIncludes: ['/**/components/**/*.css'],
+                    },
+                },
+            },
+        });
+
+        return lintResult.results[0]?.warnings.length;
+    }
+
+    it('should lint files matched by file includes', async () => {
+        expect(await getWarningCount('/src/components/button/button.css')).toBe(1);
+    });
+
+    it('should not lint files outside of file includes', async () => {
+        expect(await getWarningCount('/src/pages/home.css')).toBe(0);
+    });
+});
@@ -0,0 +1,55 @@
+import {Declaration, parse, Rule} from 'postcss';
+import {createFixQueue} from '../fix';
+
+describe(createFixQueue.name, () => {
+    it('should apply non-overlapping text edits from the same property', () => {
+        const root = parse('a { border: 1px solid red; }');
+        const decl = (root.first as Rule).first as Declaration;
+        const fixQueue = createFixQueue<string>();
+
+        fixQueue.queue(
+            [{type: 'replace-text', node: decl, property: 'value', start: 0, end: 3, text: '2px'}],
+            'first',
+        );
+        fixQueue.queue(
+            [
+                {
+                    type: 'replace-text',
+                    node: decl,
+                    property: 'value',
+                    start: 10,
+                    end: 13,
+                    text: 'blue',
+                },
+            ],
+            'second',
+        );
+
+        expect(fixQueue.applyAll()).toEqual([]);
+        expect(root.toString()).toBe('a { border: 2px solid blue; }');
+    });
+
+    it('should skip fixes which conflict with earlier fixes', () => {
+        const root = parse('a { color: red; visibility: hidden; }');
+        const decl = (root.first as Rule).first as Declaration;
+        const fixQueue = createFixQueue<string>();
+
+        fixQueue.queue(
+            [{type: 'replace-text', node: decl, property: 'value', start: 0, end: 3, text: 'blue'}],
+            'text edit',
+        );
+        fixQueue.queue(
+            [{type: 'replace-text', node: decl, property: 'value', start: 1, end: 2, text: 'o'}],
+            'overlapping text edit',
+        );
+        fixQueue.queue([{type: 'remove-node', node: decl}], 'removes edited node');
+        fixQueue.queue([{type: 'remove-node', node: root.first as Rule}], 'removes ancestor');
+
+        expect(fixQueue.applyAll()).toEqual([
+            'overlapping text edit',
+            'removes edited node',
+            'removes ancestor',
+        ]);
+        expect(root.toString()).toBe('a { color: blue; visibility: hidden; }');
+    });
+});
@@ -0,0 +1,80 @@
+import {lint} from 'stylelint';
+import {createDefaultRule, DefaultOptionMode} from '../default-rule';
+import {createPluginPack} from '../plugin-pack';
+import {fileNameStartsWithRule} from './rules/file-name-starts-with/file-name-starts-with.rule';
+import {uppercaseHexColorsRule} from './rules/uppercase-hex-colors/uppercase-hex-colors.rule';
+import {visibilityRule} from './rules/visibility/visibility.rule';
+import testPlugin from './test-plugin';
+
+const offByDefaultRule = createDefaultRule({
+    ruleName: 'rule-creator/off-by-default',
+    messages: {},
+    defaultOptions: {mode: DefaultOptionMode.OFF},
+    ruleCallback: () => {},
+});
+
+describe(createPluginPack.name, () => {
+    it('should throw when a rule name does not share the prefix', () => {
+        expect(() =>
+            createPluginPack({
+                prefix: 'other-prefix',
+                pluginPath: __filename,
+                rules: [visibilityRule],
+            }),
+        ).toThrow('"rule-creator/visibility" does not start with "other-prefix/"');
+    });
+
+    it('should throw when a rule is included more than once', () => {
+        expect(() =>
+            createPluginPack({
+                prefix: 'rule-creator',
+                pluginPath: __filename,
+                rules: [
+                    visibilityRule,
+                    visibilityRule,
+                ],
+            }),
+        ).toThrow('"rule-creator/visibility" is included more than once');
+    });
+
+    it('should generate recommended and all configs', () => {
+        const pack = createPluginPack({
+            prefix: 'rule-creator',
+            pluginPath: __filename,
+            rules: [
+                visibilityRule,
+                fileNameStartsWithRule,
+                offByDefaultRule,
+            ],
+        });
+
+        expect(pack.configs).toEqual({
+            recommended: {
+                plugins: [__filename],
+                rules: {
+                    [fileNameStartsWithRule.ruleName]: fileNameStartsWithRule.defaultOptions,
+                },
+            },
+            all: {
+                plugins: [__filename],
+                rules: {
+                    [visibilityRule.ruleName]: true,
+                    [fileNameStartsWithRule.ruleName]: fileNameStartsWithRule.defaultOptions,
+                    [offByDefaultRule.ruleName]: {mode: DefaultOptionMode.REQUIRE},
+                },
+            },
+        });
+    });
+
+    it('should be loadable by stylelint with its generated config', async () => {
+        const lintResult = await lint({
+            code: `a { color: #abc; visibility: hidden; }`,
+            config: testPlugin.configs.all,
+        });
+
+        expect(lintResult.results[0]?.warnings.map((warning) => warning.rule).sort()).toEqual([
+            uppercaseHexColorsRule.ruleName,
+            visibilityRule.ruleName,
+        ]);
+    });
+});
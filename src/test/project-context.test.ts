@@ -0,0 +1,147 @@
+import {mkdtempSync, rmSync, writeFileSync} from 'fs';
+import {tmpdir} from 'os';
+import {join, resolve} from 'path';
+import {lint, LinterOptions, PostcssResult} from 'stylelint';
+import {
+    createProjectContext,
+    createProjectRunState,
+    createVirtualFileSystem,
+} from '../project-context';
+import {createRule, Rule} from '../rule';
+
+const projectFiles = {
+    '/project/styles/_colors.scss': '$red: #f00;',
+    '/project/styles/components/_index.scss': '@forward "button";',
+    '/project/base/reset.css': 'a { margin: 0; }',
+};
+
+function createTestProjectContext(fileSystem = createVirtualFileSystem(projectFiles)) {
+    const result = {opts: {from: '/project/styles/main.scss'}} as unknown as PostcssResult;
+    return createProjectContext(createProjectRunState(), result, {fileSystem});
+}
+
+describe(createProjectContext.name, () => {
+    it('should resolve imports relative to the linted file', () => {
+        const project = createTestProjectContext();
+
+        expect(project.resolveImport('colors')).toBe(resolve('/project/styles/_colors.scss'));
+        expect(project.resolveImport('../base/reset')).toBe(resolve('/project/base/reset.css'));
+        expect(project.resolveImport('components')).toBe(
+            resolve('/project/styles/components/_index.scss'),
+        );
+    });
+
+    it('should not resolve missing files or urls with a protocol', () => {
+        const project = createTestProjectContext();
+
+        expect(project.resolveImport('missing')).toBeUndefined();
+        expect(project.resolveImport('sass:math')).toBeUndefined();
+        expect(project.resolveImport('https://example.com/colors.css')).toBeUndefined();
+    });
+
+    it('should parse each imported file once', () => {
+        const fileSystem = createVirtualFileSystem(projectFiles);
+        const readFile = jest.fn(fileSystem.readFile);
+        const project = createTestProjectContext({...fileSystem, readFile});
+
+        const root = project.getImportedRoot('../base/reset');
+        expect(project.getImportedRoot('../base/reset.css')).toBe(root);
+        expect(root?.toString()).toBe('a { margin: 0; }');
+        expect(readFile).toHaveBeenCalledTimes(1);
+        expect(project.getImportedRoot('missing')).toBeUndefined();
+    });
+});
+
+const unresolvedImportMessages = {
+    unresolved(url: string) {
+        return `Cannot find "${url}".`;
+    },
+};
+
+const fileCountMessages = {
+    count(count: number) {
+        return `File ${count}`;
+    },
+};
+
+describe('project context in rules', () => {
+    const tempDirs: string[] = [];
+    afterEach(() => {
+        tempDirs.splice(0).forEach((tempDir) => rmSync(tempDir, {recursive: true, force: true}));
+    });
+
+    const unresolvedImportRule = createRule({
+        ruleName: 'rule-creator/unresolved-import',
+        messages: unresolvedImportMessages,
+        project: {fileSystem: createVirtualFileSystem(projectFiles)},
+        ruleCallback: (report, messages, {root, helpers, project}) => {
+            root.walkAtRules((atRule) => {
+                helpers.parseImports(atRule).forEach((parsedImport) => {
+                    if (!project.resolveImport(parsedImport.url)) {
+                        report({
+                            message: messages.unresolved(parsedImport.url),
+                            node: atRule,
+                            index: parsedImport.urlRange.index,
+                            endIndex: parsedImport.urlRange.endIndex,
+                        });
+                    }
+                });
+            });
+        },
+    });
+
+    const fileCountRule = createRule({
+        ruleName: 'rule-creator/file-count',
+        messages: fileCountMessages,
+        ruleCallback: (report, messages, {root, project}) => {
+            const fileCount = ((project.cache.get('fileCount') as number | undefined) ?? 0) + 1;
+            project.cache.set('fileCount', fileCount);
+            report({message: messages.count(fileCount), node: root});
+        },
+    });
+
+    async function lintWithRule(rule: Rule<any>, linterOptions: Partial<LinterOptions>) {
+        const {results} = await lint({
+            ...linterOptions,
+            config: {
+                pluginFunctions: {[rule.ruleName]: rule.rule},
+                rules: {[rule.ruleName]: true},
+            },
+        });
+        return results;
+    }
+
+    it('should resolve imports from the linted file', async () => {
+        const [result] = await lintWithRule(unresolvedImportRule, {
+            code: `@import "colors";\n@import "../base/missing";`,
+            codeFilename: '/project/styles/main.less',
+            customSyntax: 'postcss-less',
+        });
+
+        expect(result?.warnings.map((warning) => warning.text)).toEqual([
+            unresolvedImportRule.messages.unresolved('../base/missing'),
+        ]);
+    });
+
+    it('should share the cache between files of the same lint run only', async () => {
+        const tempDir = mkdtempSync(join(tmpdir(), 'rule-creator-'));
+        tempDirs.push(tempDir);
+        const files = [
+            'a.css',
+            'b.css',
+        ].map((fileName) => {
+            const filePath = join(tempDir, fileName);
+            writeFileSync(filePath, `a { color: red; }\n`);
+            return filePath;
+        });
+        const getFileCounts = (results: {warnings: {text: string}[]}[]) =>
+            results.flatMap((result) => result.warnings.map((warning) => warning.text)).sort();
+
+        const expected = [
+            fileCountRule.messages.count(1),
+            fileCountRule.messages.count(2),
+        ];
+        expect(getFileCounts(await lintWithRule(fileCountRule, {files}))).toEqual(expected);
+        expect(getFileCounts(await lintWithRule(fileCountRule, {files}))).toEqual(expected);
+    });
+});
@@ -0,0 +1,156 @@
+import {mkdtempSync, readFileSync, rmSync, writeFileSync} from 'fs';
+import {tmpdir} from 'os';
+import {join} from 'path';
+import {DefaultOptionMode, DefaultRuleOptions} from '../default-rule';
+import {DefaultRuleTest} from '../default-rule-test';
+import {generateRuleDocs, writeRuleDocs} from '../rule-docs';
+import {uppercaseHexColorsRule} from './rules/uppercase-hex-colors/uppercase-hex-colors.rule';
+import {visibilityRule} from './rules/visibility/visibility.rule';
+
+const exampleTests: DefaultRuleTest<DefaultRuleOptions>[] = [
+    {
+        ruleOptions: {mode: DefaultOptionMode.BLOCK},
+        description: 'block uppercase',
+        accept: [{code: `a { color: #abc; }`}],
+        reject: [
+            {
+                code: `a { color: #ABC; }`,
+                message: uppercaseHexColorsRule.messages.shouldBeLowercase('#ABC'),
+            },
+        ],
+        linterOptions: {customSyntax: 'postcss-less'},
+    },
+    {
+        ruleOptions: true,
+        accept: [{code: `a { color: #FFF; }`}],
+        reject: [],
+    },
+];
+
+describe(generateRuleDocs.name, () => {
+    const docs = generateRuleDocs(uppercaseHexColorsRule, exampleTests);
+
+    it('should include the rule metadata', () => {
+        expect(docs.startsWith(`# \`${uppercaseHexColorsRule.ruleName}\`\n\n`)).toBe(true);
+        expect(docs).toContain(uppercaseHexColorsRule.meta?.description);
+        expect(docs).toContain("can be automatically fixed with stylelint's `fix` option");
+    });
+
+    it('should include the options table and mode semantics', () => {
+        expect(docs).toContain(
+            [
+                '| Option | Type | Required | Description |',
+                '| --- | --- | --- | --- |',
+                '| `mode` | one of "off", "require", "block" | yes | Whether the rule is off, requires its check, or blocks it. |',
+            ].join('\n'),
+        );
+        expect(docs).toContain('-   `"block"`: code must NOT follow the rule');
+    });
+
+    it('should include the default options', () => {
+        expect(docs).toContain(
+            [
+                '```json',
+                '{',
+                '    "mode": "require"',
+                '}',
+                '```',
+            ].join('\n'),
+        );
+    });
+
+    it('should only include examples from tests with a description', () => {
+        expect(docs).toContain(
+            [
+                '### block uppercase',
+                'With these options:',
+                [
+                    '```json',
+                    '{',
+                    '    "mode": "block"',
+                    '}',
+                    '```',
+                ].join('\n'),
+                '#### Accepted',
+                [
+                    '```less',
+                    'a { color: #abc; }',
+                    '```',
+                ].join('\n'),
+                '#### Rejected',
+                [
+                    '```less',
+                    'a { color: #ABC; }',
+                    '```',
+                ].join('\n'),
+            ].join('\n\n'),
+        );
+        expect(docs).not.toContain('#FFF');
+    });
+
+    it('should describe the primary option of rules which are not DefaultRules', () => {
+        expect(generateRuleDocs(visibilityRule, [])).toBe(
+            [
+                '# `rule-creator/visibility`',
+                '## Options',
+                [
+                    '| Option | Type | Required | Description |',
+                    '| --- | --- | --- | --- |',
+                    '| primary option | boolean | yes | Set to true to block the visibility property. |',
+                ].join('\n'),
+            ].join('\n\n') + '\n',
+        );
+    });
+});
+
+describe(writeRuleDocs.name, () => {
+    const tempDirs: string[] = [];
+    afterEach(() => {
+        tempDirs.splice(0).forEach((tempDir) => rmSync(tempDir, {recursive: true, force: true}));
+    });
+
+    function createDocsPath() {
+        const tempDir = mkdtempSync(join(tmpdir(), 'rule-creator-'));
+        tempDirs.push(tempDir);
+        return join(tempDir, 'README.md');
+    }
+
+    it('should write the generated docs', () => {
+        const docsPath = createDocsPath();
+        writeRuleDocs({rule: uppercaseHexColorsRule, tests: exampleTests, docsPath});
+
+        expect(readFileSync(docsPath, 'utf8')).toBe(
+            generateRuleDocs(uppercaseHexColorsRule, exampleTests),
+        );
+    });
+
+    it('should pass the check when the docs are up to date', () => {
+        const docsPath = createDocsPath();
+        writeRuleDocs({rule: uppercaseHexColorsRule, tests: exampleTests, docsPath});
+
+        expect(() =>
+            writeRuleDocs({
+                rule: uppercaseHexColorsRule,
+                tests: exampleTests,
+                docsPath,
+                check: true,
+            }),
+        ).not.toThrow();
+    });
+
+    it('should fail the check when the docs are stale or missing', () => {
+        const docsPath = createDocsPath();
+        const check = () =>
+            writeRuleDocs({
+                rule: uppercaseHexColorsRule,
+                tests: exampleTests,
+                docsPath,
+                check: true,
+            });
+
+        expect(check).toThrow('are out of date');
+        writeFileSync(docsPath, '# old docs\n');
+        expect(check).toThrow('are out of date');
+        expect(readFileSync(docsPath, 'utf8')).toBe('# old docs\n');
+    });
+});
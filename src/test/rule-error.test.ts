@@ -0,0 +1,154 @@
+import {lint} from 'stylelint';
+import {createRule} from '../rule';
+import {getWarningInternalErrors} from '../rule-error';
+import {createFuzzedCode, createFuzzTestCases} from '../rule-fuzz-test';
+
+const messages = {
+    noColor() {
+        return 'Color is not allowed.';
+    },
+};
+
+const throwingRule = createRule({
+    ruleName: 'rule-creator/throwing',
+    messages,
+    ruleCallback: (report, messages, {root}) => {
+        root.walkDecls('color', (decl) => {
+            report({message: messages.noColor(), node: decl});
+        });
+        throw new Error('broken rule');
+    },
+});
+
+const rejectingRule = createRule({
+    ruleName: 'rule-creator/rejecting',
+    messages,
+    ruleCallback: async () => {
+        throw new Error('broken async rule');
+    },
+});
+
+const throwingOptionsRule = createRule({
+    ruleName: 'rule-creator/throwing-options',
+    messages,
+    ruleCallback: () => {},
+    optionsCallback: () => {
+        throw new Error('broken options');
+    },
+});
+
+const slowRule = createRule({
+    ruleName: 'rule-creator/slow',
+    messages,
+    timeout: 10,
+    ruleCallback: async (report, messages, {root}) => {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        report({message: messages.noColor(), node: root});
+    },
+});
+
+async function lintWithRules(code: string, rules: ReturnType<typeof createRule>[]) {
+    const {results} = await lint({
+        code,
+        codeFilename: 'file.css',
+        config: {
+            pluginFunctions: Object.fromEntries(
+                rules.map((rule) => [
+                    rule.ruleName,
+                    rule.rule,
+                ]),
+            ),
+            rules: Object.fromEntries(
+                rules.map((rule) => [
+                    rule.ruleName,
+                    true,
+                ]),
+            ),
+        },
+    });
+    return results[0]!;
+}
+
+describe('rule internal errors', () => {
+    it('should report errors thrown by sync and async rules without failing the lint run', async () => {
+        const result = await lintWithRules(`a { color: red; }`, [
+            throwingRule,
+            rejectingRule,
+        ]);
+
+        expect(result.errored).toBe(true);
+        expect(result.warnings.map((warning) => warning.text)).toEqual([
+            `${messages.noColor()} (${throwingRule.ruleName})`,
+            expect.stringContaining(
+                `Rule "${
+                    throwingRule.ruleName
+                }" failed while linting "${process.cwd()}/file.css": broken rule`,
+            ),
+            expect.stringContaining(`Rule "${rejectingRule.ruleName}" failed`),
+        ]);
+        expect(getWarningInternalErrors(result)).toEqual([
+            expect.objectContaining({
+                rule: throwingRule.ruleName,
+                message: 'broken rule',
+                timedOut: false,
+            }),
+            expect.objectContaining({
+                rule: rejectingRule.ruleName,
+                message: 'broken async rule',
+                timedOut: false,
+            }),
+        ]);
+    });
+
+    it('should report errors thrown by the options callback', async () => {
+        const result = await lintWithRules(`a { color: red; }`, [throwingOptionsRule]);
+
+        expect(getWarningInternalErrors(result)).toEqual([
+            expect.objectContaining({
+                rule: throwingOptionsRule.ruleName,
+                message: 'broken options',
+            }),
+        ]);
+    });
+
+    it('should stop async rules which take longer than their timeout', async () => {
+        const result = await lintWithRules(`a { color: red; }`, [slowRule]);
+
+        expect(getWarningInternalErrors(result)).toEqual([
+            expect.objectContaining({
+                rule: slowRule.ruleName,
+                message: `"${slowRule.ruleName}" did not finish within 10ms.`,
+                timedOut: true,
+            }),
+        ]);
+        // reports from after the timeout are ignored
+        await new Promise((resolve) => setTimeout(resolve, 60));
+        expect(result.warnings).toHaveLength(1);
+    });
+});
+
+describe(createFuzzTestCases.name, () => {
+    it('should create the same inputs for the same seed', () => {
+        const seedCode = [`a { color: red; }`];
+
+        expect(createFuzzedCode(seedCode, 5, 3)).toEqual(createFuzzedCode(seedCode, 5, 3));
+        expect(createFuzzedCode(seedCode, 5, 3)).not.toEqual(createFuzzedCode(seedCode, 5, 4));
+    });
+
+    it('should fail when the rule throws on fuzzed input', async () => {
+        const testCases = createFuzzTestCases({
+            rule: throwingRule,
+            ruleOptions: true,
+            count: 10,
+        });
+        const results = await Promise.allSettled(testCases.map((testCase) => testCase.run()));
+
+        // inputs which don't parse never reach the rule
+        expect(results).toContainEqual({
+            status: 'rejected',
+            reason: expect.objectContaining({
+                message: expect.stringContaining(`"${throwingRule.ruleName}" threw on`),
+            }),
+        });
+    });
+});
@@ -0,0 +1,120 @@
+import {existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync} from 'fs';
+import {tmpdir} from 'os';
+import {join} from 'path';
+import {RuleTestSnapshotOptions} from '../rule-snapshot';
+import {createRuleTestCases} from '../rule-test';
+import {uppercaseHexColorsRule} from './rules/uppercase-hex-colors/uppercase-hex-colors.rule';
+
+function createSnapshotTestCase(snapshot: RuleTestSnapshotOptions, code: string) {
+    const [testCase] = createRuleTestCases({
+        ruleName: uppercaseHexColorsRule.ruleName,
+        rule: uppercaseHexColorsRule,
+        ruleOptions: true,
+        fix: true,
+        snapshot,
+        accept: [],
+        reject: [{code, description: 'lowercase colors'}],
+    });
+    return testCase!;
+}
+
+describe('reject test case snapshots', () => {
+    const code = `a { color: #abc; background: #def; }`;
+
+    const tempDirs: string[] = [];
+    afterEach(() => {
+        tempDirs.splice(0).forEach((tempDir) => rmSync(tempDir, {recursive: true, force: true}));
+    });
+
+    function createSnapshotPath() {
+        const tempDir = mkdtempSync(join(tmpdir(), 'rule-creator-'));
+        tempDirs.push(tempDir);
+        return join(tempDir, 'rule.snapshot.json');
+    }
+
+    it('should record every warning and the fixed output', async () => {
+        const snapshotPath = createSnapshotPath();
+        await createSnapshotTestCase({path: snapshotPath, update: false, ci: false}, code).run();
+
+        expect(Object.values(JSON.parse(readFileSync(snapshotPath, 'utf8')))).toEqual([
+            {
+                warnings: [
+                    {
+                        message: uppercaseHexColorsRule.messages.shouldBeUppercase('#abc'),
+                        line: 1,
+                        column: 12,
+                    },
+                    {
+                        message: uppercaseHexColorsRule.messages.shouldBeUppercase('#def'),
+                        line: 1,
+                        column: 30,
+                    },
+                ],
+                fixed: `a { color: #ABC; background: #DEF; }`,
+            },
+        ]);
+    });
+
+    it('should fail on missing snapshots in CI', async () => {
+        const snapshotPath = createSnapshotPath();
+        const originalCi = process.env.CI;
+        process.env.CI = 'true';
+        try {
+            await expect(
+                createSnapshotTestCase({path: snapshotPath, update: false}, code).run(),
+            ).rejects.toThrow('Missing snapshots are not recorded in CI');
+        } finally {
+            if (originalCi == undefined) {
+                delete process.env.CI;
+            } else {
+                process.env.CI = originalCi;
+            }
+        }
+
+        expect(existsSync(snapshotPath)).toBe(false);
+    });
+
+    it('should record missing snapshots in CI when updating', async () => {
+        const snapshotPath = createSnapshotPath();
+        await createSnapshotTestCase({path: snapshotPath, update: true, ci: true}, code).run();
+
+        expect(existsSync(snapshotPath)).toBe(true);
+    });
+
+    it('should fail when the snapshot does not match', async () => {
+        const snapshotPath = createSnapshotPath();
+        const snapshotKey =
+            'rule-creator/uppercase-hex-colors > reject > true > a { color: #abc; } > lowercase colors';
+        writeFileSync(
+            snapshotPath,
+            JSON.stringify({
+                [snapshotKey]: {warnings: [], fixed: 'a { color: #ABC; }'},
+            }),
+        );
+
+        await expect(
+            createSnapshotTestCase({path: snapshotPath, update: false}, 'a { color: #abc; }').run(),
+        ).rejects.toThrow('does not match');
+    });
+
+    it('should overwrite the snapshot when updating', async () => {
+        const snapshotPath = createSnapshotPath();
+        const snapshotKey =
+            'rule-creator/uppercase-hex-colors > reject > true > a { color: #abc; } > lowercase colors';
+        writeFileSync(
+            snapshotPath,
+            JSON.stringify({
+                [snapshotKey]: {warnings: [], fixed: 'a { color: #ABC; }'},
+            }),
+        );
+
+        await createSnapshotTestCase(
+            {path: snapshotPath, update: true},
+            'a { color: #abc; }',
+        ).run();
+
+        expect(JSON.parse(readFileSync(snapshotPath, 'utf8'))[snapshotKey].warnings).toHaveLength(
+            1,
+        );
+    });
+});
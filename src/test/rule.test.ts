@@ -0,0 +1,134 @@
+import {mkdtempSync, rmSync, writeFileSync} from 'fs';
+import {tmpdir} from 'os';
+import {join} from 'path';
+import {lint} from 'stylelint';
+import {createRule} from '../rule';
+import {getWarningSuggestions} from '../suggestion';
+import {uppercaseHexColorsRule} from './rules/uppercase-hex-colors/uppercase-hex-colors.rule';
+import testPlugin from './test-plugin';
+
+const deprecatedRule = createRule({
+    ruleName: 'rule-creator/deprecated',
+    messages: {},
+    meta: {
+        deprecated: true,
+        replacedBy: ['rule-creator/uppercase-hex-colors'],
+        docsUrl: 'https://example.com/deprecated',
+    },
+    ruleCallback: () => {},
+});
+
+describe('rule metadata', () => {
+    const tempDirs: string[] = [];
+    afterEach(() => {
+        tempDirs.splice(0).forEach((tempDir) => rmSync(tempDir, {recursive: true, force: true}));
+    });
+
+    it("should be attached to the stylelint plugin's meta", async () => {
+        const lintResult = await lint({
+            code: `a { color: #ABC; }`,
+            config: {
+                plugins: [testPlugin.pluginPath],
+                rules: {[uppercaseHexColorsRule.ruleName]: true},
+            },
+        });
+
+        expect(
+            lintResult.results[0]?._postcssResult?.stylelint.ruleMetadata[
+                uppercaseHexColorsRule.ruleName
+            ],
+        ).toEqual({
+            description: uppercaseHexColorsRule.meta?.description,
+            url: uppercaseHexColorsRule.meta?.docsUrl,
+            fixable: true,
+            category: 'stylistic issues',
+        });
+    });
+
+    it('should emit a deprecation warning once per lint run for deprecated rules', async () => {
+        const tempDir = mkdtempSync(join(tmpdir(), 'rule-creator-'));
+        tempDirs.push(tempDir);
+        const filePaths = [
+            'a.css',
+            'b.css',
+        ].map((fileName) => {
+            const filePath = join(tempDir, fileName);
+            writeFileSync(filePath, `a { color: red; }\n`);
+            return filePath;
+        });
+
+        const lintResult = await lint({
+            files: filePaths,
+            config: {
+                // plugins can be given to stylelint directly when no plugin paths are given
+                pluginFunctions: {[deprecatedRule.ruleName]: deprecatedRule.rule},
+                rules: {[deprecatedRule.ruleName]: true},
+            },
+        });
+
+        expect(lintResult.results.flatMap((result) => result.deprecations)).toEqual([
+            {
+                text: 'The "rule-creator/deprecated" rule is deprecated, use "rule-creator/uppercase-hex-colors" instead.',
+                reference: 'https://example.com/deprecated',
+            },
+        ]);
+    });
+});
+
+describe('suggestions', () => {
+    const conflictingFixesRule = createRule({
+        ruleName: 'rule-creator/conflicting-fixes',
+        messages: {
+            noRed: () => 'No red.',
+            noColor: () => 'No color.',
+        },
+        ruleCallback: (report, messages, {root}) => {
+            root.walkDecls('color', (decl) => {
+                const valueEdit = (text: string) => {
+                    return {
+                        type: 'replace-text' as const,
+                        node: decl,
+                        property: 'value' as const,
+                        start: 0,
+                        end: decl.value.length,
+                        text,
+                    };
+                };
+                report({message: messages.noRed(), node: decl, fix: [valueEdit('blue')]});
+                // conflicts with the fix above, so it's reported instead of fixed
+                report({
+                    message: messages.noColor(),
+                    node: decl,
+                    fix: [{type: 'remove-node', node: decl}],
+                    suggestions: [
+                        {name: 'use-green', description: 'Use green.', edits: [valueEdit('green')]},
+                    ],
+                });
+            });
+        },
+    });
+
+    it('should resolve suggestions from the file before any fixes', async () => {
+        const lintResult = await lint({
+            code: `a { color: red; }`,
+            fix: true,
+            config: {
+                pluginFunctions: {[conflictingFixesRule.ruleName]: conflictingFixesRule.rule},
+                rules: {[conflictingFixesRule.ruleName]: true},
+            },
+        });
+
+        expect(lintResult.output).toBe(`a { color: blue; }`);
+        expect(
+            getWarningSuggestions(lintResult.results[0]).map((warning) => warning.suggestions),
+        ).toEqual([
+            [
+                {
+                    name: 'use-green',
+                    description: 'Use green.',
+                    output: `a { color: green; }`,
+                },
+            ],
+        ]);
+    });
+});
@@ -1,11 +1,8 @@
-import {basename} from 'path';
+import {escapeStringForRegExp} from 'augment-vir';
 import {AtRule} from 'postcss';
-import {
-    createDefaultRule,
-    DefaultOptionMode,
-    DefaultRuleOptions,
-    doesMatchLineExceptions,
-} from '../../../default-rule';
+import {createDefaultRule, DefaultOptionMode, DefaultRuleOptions} from '../../../default-rule';
+import {RuleEdit} from '../../../fix';
+import {ParsedImport} from '../../../syntax-helpers';
 
 const messages = {
     shouldStartWith(importFileName: string, start: string) {
@@ -25,22 +22,21 @@ const defaultOptions = {
     startWith: '_',
 };
 
-function replaceAtRule(atRule: AtRule, newFileName: string, oldFileName: string) {
-    const newParams = atRule.params.replace(oldFileName, newFileName);
-    const replacementNode = atRule.clone({
-        params: newParams,
-    });
-    atRule.replaceWith(replacementNode);
-}
-
-function extractImportFileParam(atRule: AtRule): string {
-    const importParam = atRule.params.split(' ').filter((param) => param.match(/^['"]/))[0];
-
-    if (!importParam) {
-        throw new Error(`No import path found in ${atRule.params}`);
-    }
-
-    return importParam;
+function createFileNameEdit(
+    atRule: AtRule,
+    parsedImport: ParsedImport,
+    newFileName: string,
+    oldFileName: string,
+): RuleEdit {
+    const start = parsedImport.urlRange.start + parsedImport.url.lastIndexOf(oldFileName);
+    return {
+        type: 'replace-text',
+        node: atRule,
+        property: 'params',
+        start,
+        end: start + oldFileName.length,
+        text: newFileName,
+    };
 }
 
 /**
@@ -54,42 +50,60 @@ export const fileNameStartsWithRule = createDefaultRule<
     ruleName: `rule-creator/file-name-starts-with`,
     messages,
     defaultOptions,
-    ruleCallback: (report, messages, {ruleOptions, root, context, exceptionRegExps}) => {
+    optionsSchema: {
+        startWith: {type: 'string', optional: true},
+    },
+    ruleCallback: (report, messages, {ruleOptions, root, helpers}) => {
         root.walkAtRules('import', (atRule) => {
-            if (doesMatchLineExceptions(atRule, exceptionRegExps)) {
-                return;
-            }
-            const importParam = extractImportFileParam(atRule);
-
-            const fileName = basename(importParam.replace(/['"]/g, ''));
-            const startWith = ruleOptions.startWith || defaultOptions.startWith;
+            helpers.parseImports(atRule).forEach((parsedImport) => {
+                const fileNameStart = parsedImport.url.lastIndexOf('/') + 1;
+                const fileName = parsedImport.url.slice(fileNameStart);
+                // empty urls and directories don't have a file name to check
+                if (!fileName) {
+                    return;
+                }
+                const startWith = ruleOptions.startWith || defaultOptions.startWith;
+                // search after the directories so that only the file name is reported
+                const fileNameRange = helpers.getSubstringRange(
+                    atRule,
+                    fileName,
+                    parsedImport.urlRange.index + fileNameStart,
+                );
 
-            if (ruleOptions.mode === DefaultOptionMode.REQUIRE && !fileName.startsWith(startWith)) {
-                if (context.fix) {
-                    const newFileName = `${startWith}${fileName}`;
-                    replaceAtRule(atRule, newFileName, fileName);
-                } else {
+                if (
+                    ruleOptions.mode === DefaultOptionMode.REQUIRE &&
+                    !fileName.startsWith(startWith)
+                ) {
                     report({
                         message: messages.shouldStartWith(fileName, startWith),
                         node: atRule,
-                        word: atRule.toString(),
+                        ...fileNameRange,
+                        fix: [
+                            createFileNameEdit(
+                                atRule,
+                                parsedImport,
+                                `${startWith}${fileName}`,
+                                fileName,
+                            ),
+                        ],
                     });
-                }
-            } else if (
-                ruleOptions.mode === DefaultOptionMode.BLOCK &&
-                fileName.startsWith(startWith)
-            ) {
-                if (context.fix) {
-                    const newFileName = fileName.replace(new RegExp(`^${startWith}`), '');
-                    replaceAtRule(atRule, newFileName, fileName);
-                } else {
+                } else if (
+                    ruleOptions.mode === DefaultOptionMode.BLOCK &&
+                    fileName.startsWith(startWith)
+                ) {
+                    // remove every repetition of the start so that the fixed name isn't reported again
+                    const newFileName = fileName.replace(
+                        new RegExp(`^(${escapeStringForRegExp(startWith)})+`),
+                        '',
+                    );
                     report({
                         message: messages.shouldNotStartWith(fileName, startWith),
                         node: atRule,
-                        word: atRule.toString(),
+                        ...fileNameRange,
+                        fix: [createFileNameEdit(atRule, parsedImport, newFileName, fileName)],
                     });
                 }
-            }
+            });
         });
     },
 });
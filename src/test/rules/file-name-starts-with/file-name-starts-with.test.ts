@@ -1,10 +1,10 @@
 import {DefaultOptionMode} from '../../../default-rule';
 import {testDefaultRule} from '../../../default-rule-test';
+import {testRule} from '../../../testing';
 import {fileNameStartsWithRule} from './file-name-starts-with.rule';
 
 testDefaultRule({
     rule: fileNameStartsWithRule,
-    pluginPath: './dist/test/test-plugin.js',
     tests: [
         {
             ruleOptions: true,
@@ -52,6 +52,14 @@ testDefaultRule({
                     `,
                     description: 'accepts import with startWith and directories',
                 },
+                {
+                    code: `@import "";`,
+                    description: 'ignores imports without a url',
+                },
+                {
+                    code: `@import "dir/";`,
+                    description: 'ignores imports of directories',
+                },
             ],
             reject: [
                 {
@@ -61,6 +69,10 @@ testDefaultRule({
                     `,
                     description: 'blocks import without startWith',
                     message: fileNameStartsWithRule.messages.shouldStartWith('colors', '_'),
+                    line: 2,
+                    column: 46,
+                    endLine: 2,
+                    endColumn: 52,
                 },
                 {
                     code: `
@@ -69,6 +81,10 @@ testDefaultRule({
                     `,
                     description: 'blocks import with directories and without startWith',
                     message: fileNameStartsWithRule.messages.shouldStartWith('colors', '_'),
+                    line: 2,
+                    column: 55,
+                    endLine: 2,
+                    endColumn: 61,
                 },
             ],
         },
@@ -221,6 +237,32 @@ testDefaultRule({
                 },
             ],
         },
+        {
+            ruleOptions: {
+                mode: DefaultOptionMode.BLOCK,
+                startWith: '$',
+            },
+            description: 'should fix blocked starts which are RegExp syntax',
+            fix: true,
+            accept: [
+                {
+                    code: `@import "colors$";`,
+                },
+            ],
+            reject: [
+                {
+                    code: `@import "$colors";`,
+                    message: fileNameStartsWithRule.messages.shouldNotStartWith('$colors', '$'),
+                    fixed: `@import "colors";`,
+                },
+                {
+                    code: `@import "$$colors";`,
+                    description: 'fixes repeated blocked starts in one pass',
+                    message: fileNameStartsWithRule.messages.shouldNotStartWith('$$colors', '$'),
+                    fixed: `@import "colors";`,
+                },
+            ],
+        },
         {
             ruleOptions: {
                 mode: DefaultOptionMode.REQUIRE,
@@ -329,3 +371,44 @@ testDefaultRule({
         },
     ],
 });
+
+testRule({
+    ruleName: fileNameStartsWithRule.ruleName,
+    ruleOptions: {
+        // cspell:disable-next-line
+        mode: 'requre',
+        startsWith: '_',
+    },
+    description: 'should report each invalid option with a hint',
+    rule: fileNameStartsWithRule,
+    accept: [],
+    reject: [
+        {
+            code: `@import "_colors";`,
+            warnings: [
+                {
+                    message: fileNameStartsWithRule.messages.invalidOptions({
+                        path: 'mode',
+                        expected: 'one of "off", "require", "block"',
+                        // cspell:disable-next-line
+                        received: '"requre"',
+                        hint: "did you mean 'require'?",
+                    }),
+                    line: 1,
+                    column: 1,
+                },
+                {
+                    message: fileNameStartsWithRule.messages.invalidOptions({
+                        path: 'startsWith',
+                        expected: 'no such option',
+                        received: '"_"',
+                        hint: "did you mean 'startWith'?",
+                        unknown: true,
+                    }),
+                    line: 1,
+                    column: 1,
+                },
+            ],
+        },
+    ],
+});
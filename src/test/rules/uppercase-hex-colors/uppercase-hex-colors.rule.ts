@@ -0,0 +1,77 @@
+import {createDefaultRule, DefaultOptionMode, DefaultRuleOptions} from '../../../default-rule';
+
+const messages = {
+    shouldBeUppercase(hexColor: string) {
+        return `"${hexColor}" should be uppercase`;
+    },
+    shouldBeLowercase(hexColor: string) {
+        return `"${hexColor}" should be lowercase`;
+    },
+};
+
+const defaultOptions: DefaultRuleOptions = {
+    mode: DefaultOptionMode.REQUIRE,
+};
+
+/**
+ * This rule never checks lineExceptions itself. It instead relies on createDefaultRule dropping
+ * reports which match lineExceptions.
+ */
+export const uppercaseHexColorsRule = createDefaultRule<typeof messages, DefaultRuleOptions>({
+    ruleName: `rule-creator/uppercase-hex-colors`,
+    messages,
+    defaultOptions,
+    optionsSchema: {},
+    meta: {
+        description: 'Require hex colors to be uppercase (or lowercase, with the block mode).',
+        docsUrl:
+            'https://github.com/electrovir/stylelint-rule-creator/blob/master/src/test/rules/uppercase-hex-colors/uppercase-hex-colors.rule.ts',
+        fixable: true,
+        category: 'stylistic issues',
+    },
+    ruleCallback: (report, messages, {ruleOptions, root, helpers}) => {
+        root.walkDecls((decl) => {
+            const {parsed, rangeOf} = helpers.parseValue(decl);
+            parsed.walk((valueNode) => {
+                if (valueNode.type !== 'word') {
+                    return;
+                }
+                const wordRange = rangeOf(valueNode);
+
+                Array.from(valueNode.value.matchAll(/#[0-9a-f]{3,8}\b/gi)).forEach((match) => {
+                    const [hexColor] = match as [string];
+                    const offset = match.index ?? 0;
+                    const fixedHexColor =
+                        ruleOptions.mode === DefaultOptionMode.REQUIRE
+                            ? hexColor.toUpperCase()
+                            : hexColor.toLowerCase();
+
+                    if (hexColor === fixedHexColor) {
+                        return;
+                    }
+
+                    report({
+                        message:
+                            ruleOptions.mode === DefaultOptionMode.REQUIRE
+                                ? messages.shouldBeUppercase(hexColor)
+                                : messages.shouldBeLowercase(hexColor),
+                        node: decl,
+                        // report each match where it is, since the same color can be repeated
+                        index: wordRange.index + offset,
+                        endIndex: wordRange.index + offset + hexColor.length,
+                        fix: [
+                            {
+                                type: 'replace-text',
+                                node: decl,
+                                property: 'value',
+                                start: wordRange.start + offset,
+                                end: wordRange.start + offset + hexColor.length,
+                                text: fixedHexColor,
+                            },
+                        ],
+                    });
+                });
+            });
+        });
+    },
+});
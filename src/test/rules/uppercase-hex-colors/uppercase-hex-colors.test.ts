@@ -0,0 +1,304 @@
+import {DefaultOptionMode} from '../../../default-rule';
+import {testDefaultRule, TestSyntax} from '../../../default-rule-test';
+import {testRuleNeverThrows} from '../../../rule-fuzz-test';
+import testPlugin from '../../test-plugin';
+import {uppercaseHexColorsRule} from './uppercase-hex-colors.rule';
+
+testDefaultRule({
+    rule: uppercaseHexColorsRule,
+    pluginPack: testPlugin,
+    tests: [
+        {
+            ruleOptions: true,
+            description: 'should require uppercase with default rule options',
+            accept: [
+                {
+                    code: `a { color: #ABC; }`,
+                    description: 'accepts uppercase hex colors',
+                },
+                {
+                    code: `a { color: #123; }`,
+                    description: 'accepts hex colors without letters',
+                },
+            ],
+            reject: [
+                {
+                    code: `a { color: #abc; }`,
+                    description: 'rejects lowercase hex colors',
+                    message: uppercaseHexColorsRule.messages.shouldBeUppercase('#abc'),
+                    line: 1,
+                    column: 12,
+                    endLine: 1,
+                    endColumn: 16,
+                },
+                {
+                    code: `a { border-color: #abc #abc; }`,
+                    description: 'reports each repetition of a hex color where it is',
+                    warnings: [
+                        {
+                            message: uppercaseHexColorsRule.messages.shouldBeUppercase('#abc'),
+                            line: 1,
+                            column: 19,
+                            endLine: 1,
+                            endColumn: 23,
+                        },
+                        {
+                            message: uppercaseHexColorsRule.messages.shouldBeUppercase('#abc'),
+                            line: 1,
+                            column: 24,
+                            endLine: 1,
+                            endColumn: 28,
+                        },
+                    ],
+                },
+            ],
+        },
+        {
+            ruleOptions: true,
+            description: 'should fix each hex color in a value',
+            fix: true,
+            accept: [
+                {
+                    code: `a { border: 1px solid #ABC; }`,
+                },
+            ],
+            reject: [
+                {
+                    code: `a { background: linear-gradient(#abc, #DEF, #fed); }`,
+                    warnings: [
+                        {
+                            message: uppercaseHexColorsRule.messages.shouldBeUppercase('#abc'),
+                            line: 1,
+                            column: 33,
+                            endLine: 1,
+                            endColumn: 37,
+                        },
+                        {
+                            message: uppercaseHexColorsRule.messages.shouldBeUppercase('#fed'),
+                            line: 1,
+                            column: 45,
+                            endLine: 1,
+                            endColumn: 49,
+                        },
+                    ],
+                    message: uppercaseHexColorsRule.messages.shouldBeUppercase('#abc'),
+                    fixed: `a { background: linear-gradient(#ABC, #DEF, #FED); }`,
+                },
+            ],
+        },
+        {
+            ruleOptions: {
+                mode: DefaultOptionMode.REQUIRE,
+                severity: 'warning',
+                message: 'Use uppercase hex colors.',
+            },
+            description: 'should use the message override',
+            accept: [],
+            reject: [
+                {
+                    code: `a { color: #abc; }`,
+                    message: `Use uppercase hex colors. (${uppercaseHexColorsRule.ruleName})`,
+                },
+            ],
+        },
+        {
+            ruleOptions: {
+                mode: DefaultOptionMode.BLOCK,
+                message: {
+                    require: 'Use uppercase hex colors.',
+                    block: 'Use lowercase hex colors.',
+                },
+            },
+            description: 'should use the message override for the current mode',
+            accept: [],
+            reject: [
+                {
+                    code: `a { color: #ABC; }`,
+                    message: `Use lowercase hex colors. (${uppercaseHexColorsRule.ruleName})`,
+                },
+            ],
+        },
+        {
+            ruleOptions: {
+                mode: DefaultOptionMode.BLOCK,
+            },
+            description: 'should block uppercase',
+            accept: [
+                {
+                    code: `a { color: #abcdef; }`,
+                },
+            ],
+            reject: [
+                {
+                    code: `a { border: 1px solid #ABCDEF; }`,
+                    message: uppercaseHexColorsRule.messages.shouldBeLowercase('#ABCDEF'),
+                },
+            ],
+        },
+        {
+            ruleOptions: {
+                mode: DefaultOptionMode.REQUIRE,
+                lineExceptions: ['*#fff*'],
+            },
+            description: 'should automatically ignore violations matching line exceptions',
+            accept: [
+                {
+                    code: `
+                        a {
+                            color: #fff;
+                        }
+                    `,
+                    description: 'ignores the declaration matching a line exception',
+                },
+            ],
+            reject: [
+                {
+                    code: `
+                        a {
+                            color: #fff;
+                            background: #eee;
+                        }
+                    `,
+                    description: 'catches other lines that do not match line exceptions',
+                    message: uppercaseHexColorsRule.messages.shouldBeUppercase('#eee'),
+                },
+            ],
+        },
+        {
+            ruleOptions: true,
+            description: 'should respect ignore comments',
+            accept: [
+                {
+                    code: `
+                        a {
+                            /* rule-creator-ignore-next-line */
+                            color: #fff;
+                        }
+                    `,
+                    description: 'ignores the line after an ignore-next-line comment',
+                },
+                {
+                    code: `
+                        a {
+                            /* rule-creator-ignore-next-line rule-creator/uppercase-hex-colors */
+                            color: #fff;
+                        }
+                    `,
+                    description: 'ignores the next line when the comment names this rule',
+                },
+                {
+                    code: `
+                        /* rule-creator-ignore-start */
+                        a {
+                            color: #fff;
+                            background: #eee;
+                        }
+                        /* rule-creator-ignore-end */
+                    `,
+                    description: 'ignores lines inside an ignored block',
+                },
+                {
+                    code: `
+                        /* rule-creator-ignore-start rule-creator/uppercase-hex-colors */
+                        a {
+                            color: #fff;
+                        }
+                    `,
+                    description: 'ignores everything after an unterminated ignored block',
+                },
+            ],
+            reject: [
+                {
+                    code: `
+                        a {
+                            /* rule-creator-ignore-next-line rule-creator/other-rule */
+                            color: #fff;
+                        }
+                    `,
+                    description: 'does not ignore lines when the comment names other rules',
+                    message: uppercaseHexColorsRule.messages.shouldBeUppercase('#fff'),
+                },
+                {
+                    code: `
+                        /* rule-creator-ignore-start */
+                        a {
+                            color: #FFF;
+                        }
+                        /* rule-creator-ignore-end */
+                        b {
+                            color: #eee;
+                        }
+                    `,
+                    description: 'does not ignore lines after an ignored block',
+                    message: uppercaseHexColorsRule.messages.shouldBeUppercase('#eee'),
+                },
+            ],
+        },
+        {
+            ruleOptions: {
+                mode: DefaultOptionMode.REQUIRE,
+                lineExceptions: ['#eee'],
+            },
+            description: 'should match line exceptions against the reported word',
+            accept: [
+                {
+                    code: `a { background: #eee; }`,
+                },
+            ],
+            reject: [],
+        },
+    ],
+});
+
+testDefaultRule({
+    rule: uppercaseHexColorsRule,
+    syntaxes: Object.values(TestSyntax),
+    tests: [
+        {
+            ruleOptions: true,
+            description: 'should check hex colors in every syntax that can be fixed',
+            // postcss-sass can't write Sass back out, so fixes can't be checked in Sass
+            syntaxes: Object.values(TestSyntax).filter((syntax) => syntax !== TestSyntax.SASS),
+            fix: true,
+            accept: [
+                {
+                    code: `a { color: #ABC; }`,
+                },
+            ],
+            reject: [
+                {
+                    code: `a { color: #abc; }`,
+                    message: uppercaseHexColorsRule.messages.shouldBeUppercase('#abc'),
+                    fixed: `a { color: #ABC; }`,
+                },
+            ],
+        },
+        {
+            ruleOptions: true,
+            description: 'should report positions in every syntax',
+            accept: [],
+            reject: [
+                {
+                    code: `a {\n    color: #abc;\n}\nb {\n    background: #def;\n}`,
+                    warnings: [
+                        {
+                            message: uppercaseHexColorsRule.messages.shouldBeUppercase('#abc'),
+                            line: 2,
+                            column: 12,
+                        },
+                        {
+                            message: uppercaseHexColorsRule.messages.shouldBeUppercase('#def'),
+                            line: 5,
+                            column: 17,
+                        },
+                    ],
+                },
+            ],
+        },
+    ],
+});
+
+testRuleNeverThrows({
+    rule: uppercaseHexColorsRule,
+    ruleOptions: true,
+});
@@ -13,13 +13,14 @@ const messages = {
 export const visibilityRule = createRule<typeof messages, string>({
     ruleName: 'rule-creator/visibility',
     messages,
+    optionsSchema: {type: 'boolean', description: 'Set to true to block the visibility property.'},
     optionsCallback: (primary): string => {
         return `${primary}`;
     },
     ruleCallback: (
         reportCallback,
         messageCallbacks,
-        {primaryOption, context, root, optionsCallbackResult},
+        {primaryOption, root, optionsCallbackResult},
     ) => {
         if (!primaryOption) {
             return;
@@ -34,15 +35,32 @@ export const visibilityRule = createRule<typeof messages, string>({
 
         root.walkDecls((decl) => {
             if (decl.prop === 'visibility') {
-                if (context.fix) {
-                    decl.remove();
-                } else {
-                    reportCallback({
-                        message: messageCallbacks.noUseVisibility(),
-                        node: decl,
-                        word: decl.value,
-                    });
-                }
+                reportCallback({
+                    message: messageCallbacks.noUseVisibility(),
+                    node: decl,
+                    word: decl.value,
+                    fix: [{type: 'remove-node', node: decl}],
+                    suggestions:
+                        decl.value === 'hidden'
+                            ? [
+                                  {
+                                      name: 'use-display-none',
+                                      description:
+                                          'Replace with display: none (this removes the element from the layout).',
+                                      edits: [
+                                          {
+                                              type: 'replace-node',
+                                              node: decl,
+                                              replacement: decl.clone({
+                                                  prop: 'display',
+                                                  value: 'none',
+                                              }),
+                                          },
+                                      ],
+                                  },
+                              ]
+                            : undefined,
+                });
             }
         });
     },
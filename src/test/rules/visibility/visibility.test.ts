@@ -6,7 +6,7 @@ testRule({
     ruleOptions: true,
     description: 'should work with a bare boolean value',
     fix: true,
-    linterOptions: {config: {plugins: ['./dist/test/test-plugin.js']}},
+    rule: visibilityRule,
     accept: [
         {
             code: 'a { color: pink; }',
@@ -17,6 +17,18 @@ testRule({
             code: 'a { color: pink; visibility: hidden; }',
             fixed: 'a { color: pink; }',
             message: visibilityRule.messages.noUseVisibility(),
+            suggestions: [
+                {
+                    name: 'use-display-none',
+                    output: 'a { color: pink; display: none; }',
+                },
+            ],
+        },
+        {
+            code: 'a { color: pink; visibility: collapse; }',
+            fixed: 'a { color: pink; }',
+            message: visibilityRule.messages.noUseVisibility(),
+            suggestions: [],
         },
     ],
 });
@@ -26,7 +38,7 @@ testRule({
     ruleOptions: [true],
     description: 'also should work with an array',
     fix: true,
-    linterOptions: {config: {plugins: ['./dist/test/test-plugin.js']}},
+    rule: visibilityRule,
     accept: [
         {
             code: 'a { color: pink; }',
@@ -0,0 +1,220 @@
+import {mkdtempSync, readFileSync, rmSync, writeFileSync} from 'fs';
+import {tmpdir} from 'os';
+import {join} from 'path';
+import {runCli} from '../cli';
+import {scaffoldRule, ScaffoldRuleKind} from '../scaffold';
+
+const tempDirs: string[] = [];
+
+function createTempDir(): string {
+    const tempDir = mkdtempSync(join(tmpdir(), 'rule-creator-'));
+    tempDirs.push(tempDir);
+    return tempDir;
+}
+
+function removeTempDirs(): void {
+    tempDirs.splice(0).forEach((tempDir) => rmSync(tempDir, {recursive: true, force: true}));
+}
+
+/** Points the generated files' package imports at this repo's source so that they can run. */
+function importFromSource(filePath: string): void {
+    const sourceDir = join(__dirname, '..');
+    writeFileSync(
+        filePath,
+        readFileSync(filePath, 'utf8')
+            .replace(/'stylelint-rule-creator\/dist\/testing'/g, `'${join(sourceDir, 'testing')}'`)
+            .replace(/'stylelint-rule-creator'/g, `'${join(sourceDir, 'index')}'`),
+    );
+}
+
+describe(scaffoldRule.name, () => {
+    afterEach(removeTempDirs);
+
+    it('should create a DefaultRule, its test, and a new plugin pack', () => {
+        const tempDir = createTempDir();
+        const pluginPackPath = join(tempDir, 'src', 'index.ts');
+        const changedFiles = scaffoldRule({
+            ruleName: 'my-plugin/no-bad-things',
+            kind: ScaffoldRuleKind.DEFAULT,
+            rulesDir: join(tempDir, 'src', 'rules'),
+            pluginPackPath,
+        });
+        const [
+            ruleFilePath,
+            testFilePath,
+        ] = changedFiles as [string, string];
+
+        expect(changedFiles).toEqual([
+            join(tempDir, 'src', 'rules', 'no-bad-things', 'no-bad-things.rule.ts'),
+            join(tempDir, 'src', 'rules', 'no-bad-things', 'no-bad-things.test.ts'),
+            pluginPackPath,
+        ]);
+
+        const ruleFile = readFileSync(ruleFilePath, 'utf8');
+        expect(ruleFile).toContain('export type NoBadThingsRuleOptions = DefaultRuleOptions & {');
+        expect(ruleFile).toContain(
+            'export const noBadThingsRule = createDefaultRule<typeof messages, NoBadThingsRuleOptions>({',
+        );
+        expect(ruleFile).toContain("ruleName: 'my-plugin/no-bad-things',");
+        expect(ruleFile).not.toMatch(/\{\{\w+\}\}/);
+
+        const testFile = readFileSync(testFilePath, 'utf8');
+        expect(testFile).toContain("import pluginPack from '../../index';");
+        expect(testFile).toContain("import {noBadThingsRule} from './no-bad-things.rule';");
+        expect(testFile).toContain('testDefaultRule({');
+
+        expect(readFileSync(pluginPackPath, 'utf8')).toBe(
+            [
+                "import {createPluginPack} from 'stylelint-rule-creator';",
+                "import {noBadThingsRule} from './rules/no-bad-things/no-bad-things.rule';",
+                '',
+                'export default createPluginPack({',
+                "    prefix: 'my-plugin',",
+                '    pluginPath: __filename,',
+                '    rules: [',
+                '        noBadThingsRule,',
+                '    ],',
+                '});',
+                '',
+            ].join('\n'),
+        );
+    });
+
+    it('should register a bare rule in an existing plugin pack', () => {
+        const tempDir = createTempDir();
+        const pluginPackPath = join(tempDir, 'plugin.ts');
+        writeFileSync(
+            pluginPackPath,
+            [
+                "import {createPluginPack} from 'stylelint-rule-creator';",
+                "import {firstRule} from './rules/first/first.rule';",
+                '',
+                'export default createPluginPack({',
+                "    prefix: 'my-plugin',",
+                '    pluginPath: __filename,',
+                '    rules: [',
+                '        firstRule,',
+                '    ],',
+                '});',
+                '',
+            ].join('\n'),
+        );
+
+        const [ruleFilePath] = scaffoldRule({
+            ruleName: 'my-plugin/second',
+            kind: ScaffoldRuleKind.BARE,
+            rulesDir: join(tempDir, 'rules'),
+            pluginPackPath,
+        }) as [string];
+
+        expect(readFileSync(ruleFilePath, 'utf8')).toContain(
+            'export const secondRule = createRule<typeof messages, undefined, boolean>({',
+        );
+        expect(readFileSync(pluginPackPath, 'utf8')).toBe(
+            [
+                "import {createPluginPack} from 'stylelint-rule-creator';",
+                "import {firstRule} from './rules/first/first.rule';",
+                "import {secondRule} from './rules/second/second.rule';",
+                '',
+                'export default createPluginPack({',
+                "    prefix: 'my-plugin',",
+                '    pluginPath: __filename,',
+                '    rules: [',
+                '        firstRule,',
+                '        secondRule,',
+                '    ],',
+                '});',
+                '',
+            ].join('\n'),
+        );
+    });
+
+    it('should reject invalid rule names and existing rules', () => {
+        const tempDir = createTempDir();
+        const inputs = {
+            kind: ScaffoldRuleKind.DEFAULT,
+            rulesDir: join(tempDir, 'rules'),
+            pluginPackPath: join(tempDir, 'index.ts'),
+        };
+
+        expect(() => scaffoldRule({...inputs, ruleName: 'no-prefix'})).toThrow(
+            'Invalid rule name "no-prefix"',
+        );
+        scaffoldRule({...inputs, ruleName: 'my-plugin/my-rule'});
+        expect(() => scaffoldRule({...inputs, ruleName: 'my-plugin/my-rule'})).toThrow(
+            'already exists',
+        );
+    });
+});
+
+describe('scaffolded rules', () => {
+    // created while collecting tests, so it can't be removed by the other tests' afterEach
+    const tempDir = mkdtempSync(join(tmpdir(), 'rule-creator-'));
+    const pluginPackPath = join(tempDir, 'index.ts');
+    // scaffold every rule before loading any of them so that the loaded plugin pack includes them all
+    const testFilePaths = [
+        ScaffoldRuleKind.DEFAULT,
+        ScaffoldRuleKind.BARE,
+    ].map((kind) => {
+        const changedFiles = scaffoldRule({
+            ruleName: `my-plugin/${kind}-rule`,
+            kind,
+            rulesDir: join(tempDir, 'rules'),
+            pluginPackPath,
+        });
+        changedFiles.forEach(importFromSource);
+        return changedFiles[1]!;
+    });
+
+    afterAll(() => rmSync(tempDir, {recursive: true, force: true}));
+
+    // the generated tests register themselves, so they run as part of this test file
+    testFilePaths.forEach((testFilePath) => require(testFilePath));
+});
+
+describe(runCli.name, () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        jest.spyOn(console, 'info').mockImplementation(() => {});
+    });
+    afterEach(() => {
+        jest.restoreAllMocks();
+        removeTempDirs();
+    });
+
+    it('should create a rule with the given options', () => {
+        const tempDir = createTempDir();
+
+        expect(
+            runCli(
+                [
+                    'new',
+                    'my-plugin/no-visibility',
+                    '--bare',
+                    '--pack',
+                    'plugin.ts',
+                ],
+                tempDir,
+            ),
+        ).toBe(0);
+        expect(readFileSync(join(tempDir, 'plugin.ts'), 'utf8')).toContain('noVisibilityRule,');
+        expect(
+            readFileSync(
+                join(tempDir, 'src', 'rules', 'no-visibility', 'no-visibility.rule.ts'),
+                'utf8',
+            ),
+        ).toContain('createRule');
+    });
+
+    it('should fail with usage for unknown commands and arguments', () => {
+        expect(runCli(['old'])).toBe(1);
+        expect(
+            runCli([
+                'new',
+                'my-plugin/my-rule',
+                '--unknown',
+            ]),
+        ).toBe(1);
+        expect(console.error).toHaveBeenCalledTimes(2);
+    });
+});
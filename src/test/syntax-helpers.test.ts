@@ -0,0 +1,121 @@
+import {AtRule, Declaration, parse, Rule as PostcssRule, Syntax} from 'postcss';
+import {getSubstringRange, parseImports, parseSelector, parseValue} from '../syntax-helpers';
+
+// postcss-less doesn't ship types
+const postcssLess: Required<Pick<Syntax, 'parse'>> = require('postcss-less');
+
+function parseFirstNode<NodeType>(
+    code: string,
+    syntax: Required<Pick<Syntax, 'parse'>> = {parse},
+): NodeType {
+    return syntax.parse(code).first as unknown as NodeType;
+}
+
+describe(parseImports.name, () => {
+    it('should parse urls, media queries, and less options with their ranges', () => {
+        const atRule = parseFirstNode<AtRule>(
+            `@import (reference, optional) "dir/_colors" screen and (min-width: 1px);`,
+            postcssLess,
+        );
+        const [parsedImport] = parseImports(atRule);
+
+        expect(parsedImport).toEqual({
+            type: 'import',
+            url: 'dir/_colors',
+            urlRange: {start: 23, end: 34, index: 31, endIndex: 42},
+            media: 'screen and (min-width: 1px)',
+            mediaRange: {start: 36, end: 63, index: 44, endIndex: 71},
+            lessOptions: [
+                'reference',
+                'optional',
+            ],
+        });
+        expect(
+            atRule.toString().slice(parsedImport!.urlRange.index, parsedImport!.urlRange.endIndex),
+        ).toBe('dir/_colors');
+    });
+
+    it('should parse each url of comma separated imports', () => {
+        const atRule = parseFirstNode<AtRule>(`@import url(a.css), 'b.css' print;`);
+
+        expect(
+            parseImports(atRule).map((parsedImport) => [
+                parsedImport.url,
+                parsedImport.media,
+            ]),
+        ).toEqual([
+            [
+                'a.css',
+                undefined,
+            ],
+            [
+                'b.css',
+                'print',
+            ],
+        ]);
+    });
+
+    it('should only parse the url of @use and @forward', () => {
+        const atRules = parse(`@use "sass:math" as m; @forward "src/list" hide list-reset;`)
+            .nodes as AtRule[];
+
+        expect(atRules.flatMap(parseImports)).toEqual([
+            expect.objectContaining({type: 'use', url: 'sass:math', media: undefined}),
+            expect.objectContaining({type: 'forward', url: 'src/list', media: undefined}),
+        ]);
+    });
+
+    it('should ignore other at-rules', () => {
+        expect(parseImports(parseFirstNode<AtRule>(`@media print {}`))).toEqual([]);
+    });
+});
+
+describe(parseValue.name, () => {
+    it('should give ranges of value nodes inside the declaration', () => {
+        const decl = parseFirstNode<PostcssRule>(`a { border:  1px solid #abc; }`)
+            .first as Declaration;
+        const {parsed, rangeOf} = parseValue(decl);
+        const colorNode = parsed.nodes.find((node) => node.value === '#abc')!;
+        const range = rangeOf(colorNode);
+
+        expect(decl.value.slice(range.start, range.end)).toBe('#abc');
+        expect(decl.toString().slice(range.index, range.endIndex)).toBe('#abc');
+    });
+});
+
+describe(parseSelector.name, () => {
+    it('should give ranges of selector nodes inside the rule', () => {
+        const rule = parseFirstNode<PostcssRule>(`a.b >  c, d:not(.e) {}`);
+        const {root, rangeOf} = parseSelector(rule);
+        const rangeTexts: string[] = [];
+        root.walk((selectorNode) => {
+            const range = rangeOf(selectorNode);
+            if (range) {
+                rangeTexts.push(rule.toString().slice(range.index, range.endIndex));
+            }
+        });
+
+        expect(rangeTexts).toEqual([
+            'a.b >  c',
+            'a',
+            '.b',
+            '>',
+            'c',
+            'd:not(.e)',
+            'd',
+            ':not(.e)',
+            '.e',
+            '.e',
+        ]);
+    });
+});
+
+describe(getSubstringRange.name, () => {
+    it('should find the range of a substring after the given index', () => {
+        const atRule = parseFirstNode<AtRule>(`@import "colors/colors";`);
+
+        expect(getSubstringRange(atRule, 'colors')).toEqual({index: 9, endIndex: 15});
+        expect(getSubstringRange(atRule, 'colors', 10)).toEqual({index: 16, endIndex: 22});
+        expect(getSubstringRange(atRule, 'fonts')).toBeUndefined();
+    });
+});
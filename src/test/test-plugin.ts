@@ -1,7 +1,14 @@
+import {createPluginPack} from '../plugin-pack';
 import {fileNameStartsWithRule} from './rules/file-name-starts-with/file-name-starts-with.rule';
+import {uppercaseHexColorsRule} from './rules/uppercase-hex-colors/uppercase-hex-colors.rule';
 import {visibilityRule} from './rules/visibility/visibility.rule';
 
-export default [
-    visibilityRule,
-    fileNameStartsWithRule,
-];
+export default createPluginPack({
+    prefix: 'rule-creator',
+    pluginPath: __filename,
+    rules: [
+        visibilityRule,
+        fileNameStartsWithRule,
+        uppercaseHexColorsRule,
+    ] as const,
+});
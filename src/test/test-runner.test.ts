@@ -0,0 +1,552 @@
+import {execFile} from 'child_process';
+import {mkdtempSync, rmSync, writeFileSync} from 'fs';
+import {tmpdir} from 'os';
+import {join} from 'path';
+import {promisify} from 'util';
+import {createDefaultRule, DefaultOptionMode} from '../default-rule';
+import {createDefaultRuleTestCases, TestSyntax} from '../default-rule-test';
+import {createRule} from '../rule';
+import {createRuleTestCases} from '../rule-test';
+import {
+    mochaAdapter,
+    nodeTestAdapter,
+    registerTestCases,
+    RuleTestCase,
+    TestRunnerApi,
+} from '../test-runner';
+import {uppercaseHexColorsRule} from './rules/uppercase-hex-colors/uppercase-hex-colors.rule';
+import {visibilityRule} from './rules/visibility/visibility.rule';
+import testPlugin from './test-plugin';
+
+function createTestCase(describePath: string[], name: string): RuleTestCase {
+    return {describePath, name, only: false, skip: name === 'skipped', run: async () => {}};
+}
+
+describe(registerTestCases.name, () => {
+    it('should group test cases into shared describe blocks', () => {
+        const registered: string[] = [];
+        const depth: string[] = [];
+        const fakeRunner: TestRunnerApi = {
+            describe: (name, callback) => {
+                depth.push(name);
+                callback();
+                depth.pop();
+            },
+            it: (name, options) => {
+                registered.push(
+                    [
+                        ...depth,
+                        `${name}${options.skip ? ' (skip)' : ''}`,
+                    ].join(' > '),
+                );
+            },
+        };
+
+        registerTestCases(
+            [
+                createTestCase(
+                    [
+                        'rule',
+                        'accept',
+                    ],
+                    'first',
+                ),
+                createTestCase(
+                    [
+                        'rule',
+                        'reject',
+                    ],
+                    'second',
+                ),
+                createTestCase(
+                    [
+                        'rule',
+                        'accept',
+                    ],
+                    'skipped',
+                ),
+            ],
+            fakeRunner,
+        );
+
+        expect(registered).toEqual([
+            'rule > accept > first',
+            'rule > accept > skipped (skip)',
+            'rule > reject > second',
+        ]);
+    });
+});
+
+type MochaTest = {fullTitle: () => string};
+type MochaRunner = {
+    on: (event: 'pass' | 'fail' | 'pending', listener: (test: MochaTest) => void) => MochaRunner;
+};
+type MochaInstance = {
+    suite: {
+        emit: (
+            event: 'pre-require',
+            context: Record<string, unknown>,
+            file: string,
+            mocha: MochaInstance,
+        ) => void;
+    };
+    run: (callback: () => void) => MochaRunner;
+};
+
+// required without types because Mocha's types would conflict with Jest's globals
+const Mocha: {
+    new (options: {reporter: unknown}): MochaInstance;
+    reporters: {Base: unknown};
+} = require('mocha');
+
+describe('mochaAdapter', () => {
+    async function runWithMocha(testCases: RuleTestCase[]): Promise<string[]> {
+        const mocha = new Mocha({reporter: Mocha.reporters.Base});
+        const mochaGlobals: Record<string, unknown> = {};
+        mocha.suite.emit('pre-require', mochaGlobals, '', mocha);
+
+        // the adapter registers tests through the describe and it globals, which are Jest's here
+        const jestGlobals = {describe: globalThis.describe, it: globalThis.it};
+        Object.assign(globalThis, {describe: mochaGlobals.describe, it: mochaGlobals.it});
+        try {
+            mochaAdapter(testCases);
+        } finally {
+            Object.assign(globalThis, jestGlobals);
+        }
+
+        const results: string[] = [];
+        await new Promise<void>((resolve) => {
+            mocha
+                .run(resolve)
+                .on('pass', (test) => results.push(`passed: ${test.fullTitle()}`))
+                .on('fail', (test) => results.push(`failed: ${test.fullTitle()}`))
+                .on('pending', (test) => results.push(`skipped: ${test.fullTitle()}`));
+        });
+        return results;
+    }
+
+    it('should run test cases in Mocha', async () => {
+        const results = await runWithMocha([
+            {
+                ...createTestCase(['rule'], 'passing'),
+                run: async () => {},
+            },
+            {
+                ...createTestCase(['rule'], 'failing'),
+                run: async () => {
+                    throw new Error('failed');
+                },
+            },
+            createTestCase(
+                [
+                    'rule',
+                    'nested',
+                ],
+                'skipped',
+            ),
+        ]);
+
+        expect(results).toEqual([
+            'passed: rule passing',
+            'failed: rule failing',
+            'skipped: rule nested skipped',
+        ]);
+    });
+});
+
+describe(nodeTestAdapter.name, () => {
+    const tempDirs: string[] = [];
+    afterEach(() => {
+        tempDirs.splice(0).forEach((tempDir) => rmSync(tempDir, {recursive: true, force: true}));
+    });
+
+    // reads the results of tests (but not of describe blocks) from node:test's TAP output
+    function parseTapResults(tapOutput: string): string[] {
+        const subtestPath: string[] = [];
+        let previousDepth = 0;
+
+        return tapOutput.split('\n').flatMap((line) => {
+            const depth = (line.length - line.trimStart().length) / 4;
+            const subtestMatch = line.match(/^\s*# Subtest: (.+)$/);
+            if (subtestMatch) {
+                subtestPath.splice(depth, Infinity, subtestMatch[1]!);
+                return [];
+            }
+            const resultMatch = line.match(/^\s*(ok|not ok) \d+ - (.+?)( # SKIP)?$/);
+            if (!resultMatch) {
+                return [];
+            }
+            // describe blocks report their result after the results of their tests
+            const isDescribe = depth < previousDepth;
+            previousDepth = depth;
+            if (isDescribe) {
+                return [];
+            }
+            const status = resultMatch[3]
+                ? 'skipped'
+                : resultMatch[1] === 'ok'
+                ? 'passed'
+                : 'failed';
+            return [`${status}: ${subtestPath.slice(0, depth + 1).join(' ')}`];
+        });
+    }
+
+    it('should run test cases in node:test', async () => {
+        const tempDir = mkdtempSync(join(tmpdir(), 'rule-creator-'));
+        tempDirs.push(tempDir);
+        const testFilePath = join(tempDir, 'adapter.test.js');
+        writeFileSync(
+            testFilePath,
+            `
+                const {nodeTestAdapter} = require(${JSON.stringify(
+                    require.resolve('../test-runner'),
+                )});
+
+                nodeTestAdapter([
+                    {describePath: ['rule'], name: 'passing', only: false, skip: false, run: async () => {}},
+                    {
+                        describePath: ['rule'],
+                        name: 'failing',
+                        only: false,
+                        skip: false,
+                        run: async () => {
+                            throw new Error('failed');
+                        },
+                    },
+                    {describePath: ['rule', 'nested'], name: 'skipped', only: false, skip: true, run: async () => {}},
+                ]);
+            `,
+        );
+
+        // the failing test makes node exit with an error, which still has the output on it
+        const tapOutput = await promisify(execFile)(process.execPath, [
+            '--require',
+            require.resolve('ts-node/register/transpile-only'),
+            '--test',
+            '--test-reporter=tap',
+            testFilePath,
+        ]).then(
+            ({stdout}) => stdout,
+            (error: {stdout: string}) => error.stdout,
+        );
+
+        expect(parseTapResults(tapOutput)).toEqual([
+            'passed: rule passing',
+            'failed: rule failing',
+            'skipped: rule nested skipped',
+        ]);
+        expect(tapOutput).not.toContain('--test-only');
+    }, 30000);
+});
+
+describe(createRuleTestCases.name, () => {
+    const testCases = createRuleTestCases({
+        ruleName: visibilityRule.ruleName,
+        ruleOptions: true,
+        linterOptions: {config: {plugins: [testPlugin.pluginPath]}},
+        accept: [{code: 'a { color: pink; }'}],
+        reject: [
+            {
+                code: 'a { color: pink; }',
+                message: visibilityRule.messages.noUseVisibility(),
+            },
+        ],
+    });
+
+    it('should create a test case for each accept and reject case', () => {
+        expect(testCases.map((testCase) => testCase.describePath[1])).toEqual([
+            'accept',
+            'reject',
+        ]);
+    });
+
+    it('should create test cases that pass or fail without a test runner', async () => {
+        await expect(testCases[0]!.run()).resolves.toBeUndefined();
+        await expect(testCases[1]!.run()).rejects.toThrow('warning(s)');
+    });
+
+    it('should check the end positions of warnings', async () => {
+        const [testCase] = createRuleTestCases({
+            ruleName: uppercaseHexColorsRule.ruleName,
+            rule: uppercaseHexColorsRule,
+            ruleOptions: true,
+            accept: [],
+            reject: [
+                {
+                    code: 'a { color: #abc; }',
+                    message: uppercaseHexColorsRule.messages.shouldBeUppercase('#abc'),
+                    endLine: 1,
+                    endColumn: 15,
+                },
+            ],
+        });
+
+        await expect(testCase!.run()).rejects.toThrow('Warning endColumn mismatch');
+    });
+});
+
+describe(createDefaultRuleTestCases.name, () => {
+    it('should include the generated tests', () => {
+        const testCases = createDefaultRuleTestCases({
+            rule: uppercaseHexColorsRule,
+            pluginPack: testPlugin,
+            tests: [
+                {
+                    ruleOptions: true,
+                    accept: [{code: 'a { color: #abc; }'}],
+                    reject: [
+                        {
+                            code: 'a { color: #ABC; }',
+                            message: uppercaseHexColorsRule.messages.shouldBeLowercase('#ABC'),
+                        },
+                    ],
+                },
+            ],
+        });
+
+        expect(testCases.length).toBeGreaterThan(2);
+        expect(
+            testCases.every(
+                (testCase) => testCase.describePath[0] === uppercaseHexColorsRule.ruleName,
+            ),
+        ).toBe(true);
+    });
+    it('should skip options which accept every value', () => {
+        const anythingRule = createDefaultRule({
+            ruleName: 'rule-creator/anything',
+            messages: {},
+            defaultOptions: {mode: DefaultOptionMode.REQUIRE},
+            optionsSchema: {
+                anything: {
+                    type: 'oneOf',
+                    optional: true,
+                    options: [
+                        {type: 'string'},
+                        {type: 'number'},
+                        {type: 'boolean'},
+                        {type: 'array', items: {type: 'string'}},
+                        {type: 'object', properties: {}, allowUnknownProperties: true},
+                    ],
+                },
+            },
+            ruleCallback: () => {},
+        });
+        const testCases = createDefaultRuleTestCases({
+            rule: anythingRule,
+            tests: [
+                {
+                    ruleOptions: true,
+                    accept: [{code: 'a { color: red; }'}],
+                    reject: [],
+                },
+            ],
+        });
+
+        expect(
+            testCases.filter((testCase) => testCase.describePath[2]?.includes('anything')),
+        ).toEqual([]);
+    });
+});
+
+describe('line exception test variations', () => {
+    it('should not match the whole file', () => {
+        const code = 'a { color: #abc; }\nb { color: #def; }';
+        const testCases = createDefaultRuleTestCases({
+            rule: uppercaseHexColorsRule,
+            tests: [
+                {
+                    ruleOptions: true,
+                    accept: [],
+                    reject: [
+                        {
+                            code,
+                            warnings: [
+                                {
+                                    message:
+                                        uppercaseHexColorsRule.messages.shouldBeUppercase('#abc'),
+                                },
+                                {
+                                    message:
+                                        uppercaseHexColorsRule.messages.shouldBeUppercase('#def'),
+                                },
+                            ],
+                        },
+                    ],
+                },
+            ],
+        });
+        const lineExceptionTestCases = testCases.filter((testCase) =>
+            testCase.name.includes('matched by line exception'),
+        );
+
+        expect(lineExceptionTestCases).toHaveLength(3);
+        // every node is on a single line, so only the whole file's text has a new line in it
+        lineExceptionTestCases.forEach((testCase) => {
+            expect(testCase.describePath[2]).toContain('color: #abc');
+            expect(testCase.describePath[2]).not.toContain('\\n');
+        });
+    });
+});
+
+describe('syntax test variations', () => {
+    it('should name the syntax each test case runs under', () => {
+        const testCases = createDefaultRuleTestCases({
+            rule: uppercaseHexColorsRule,
+            syntaxes: [
+                TestSyntax.SCSS,
+                TestSyntax.HTML,
+            ],
+            tests: [
+                {
+                    ruleOptions: true,
+                    description: 'lowercase',
+                    accept: [],
+                    reject: [
+                        {
+                            code: 'a { color: #abc; }',
+                            message: uppercaseHexColorsRule.messages.shouldBeUppercase('#abc'),
+                        },
+                    ],
+                },
+            ],
+        });
+
+        expect(
+            testCases
+                .filter((testCase) => testCase.describePath[1] === 'reject')
+                .map((testCase) => testCase.name),
+        ).toEqual([
+            'lowercase (scss syntax)',
+            'lowercase (html syntax)',
+        ]);
+    });
+
+    it('should convert code into each syntax', () => {
+        const testCases = createDefaultRuleTestCases({
+            rule: uppercaseHexColorsRule,
+            syntaxes: [
+                TestSyntax.HTML,
+                TestSyntax.SASS,
+            ],
+            tests: [
+                {
+                    ruleOptions: true,
+                    accept: [],
+                    reject: [
+                        {
+                            code: 'a {\n    color: #abc;\n}',
+                            message: uppercaseHexColorsRule.messages.shouldBeUppercase('#abc'),
+                        },
+                    ],
+                },
+            ],
+        });
+
+        expect(
+            testCases
+                .filter((testCase) => testCase.describePath[1] === 'reject')
+                .map((testCase) => testCase.describePath[3]),
+        ).toEqual([
+            '<style>\na {\n    color: #abc;\n}\n</style>\n',
+            'a\n  color: #abc',
+        ]);
+    });
+
+    it('should fail on code which cannot be converted', () => {
+        expect(() =>
+            createDefaultRuleTestCases({
+                rule: uppercaseHexColorsRule,
+                syntaxes: [TestSyntax.SASS],
+                tests: [
+                    {
+                        ruleOptions: true,
+                        description: 'lowercase',
+                        accept: [],
+                        reject: [
+                            {
+                                code: '@media print { a { color: #abc; } }',
+                                description: 'in a media query',
+                                message: uppercaseHexColorsRule.messages.shouldBeUppercase('#abc'),
+                            },
+                        ],
+                    },
+                ],
+            }),
+        ).toThrow(
+            `Test case '@media print { a { color: #abc; } }' ("in a media query") in "lowercase" can't be converted into sass syntax.`,
+        );
+    });
+
+    it("should use a test's own syntaxes instead", () => {
+        const testCases = createDefaultRuleTestCases({
+            rule: uppercaseHexColorsRule,
+            syntaxes: [TestSyntax.SASS],
+            tests: [
+                {
+                    ruleOptions: true,
+                    description: 'fixed',
+                    syntaxes: [TestSyntax.SCSS],
+                    fix: true,
+                    accept: [],
+                    reject: [
+                        {
+                            code: 'a { color: #abc; }',
+                            message: uppercaseHexColorsRule.messages.shouldBeUppercase('#abc'),
+                            fixed: 'a { color: #ABC; }',
+                        },
+                    ],
+                },
+            ],
+        });
+
+        expect(
+            testCases
+                .filter((testCase) => testCase.describePath[1] === 'reject')
+                .map((testCase) => testCase.name),
+        ).toEqual(['fixed (scss syntax)']);
+    });
+});
+
+describe('fix stability', () => {
+    // each fix only pads the value by one character, so the fixed code is reported again
+    const unstableFixRule = createRule({
+        ruleName: 'rule-creator/padded-width',
+        messages: {
+            shouldBePadded: () => 'Widths should be at least 5 characters long.',
+        },
+        ruleCallback: (report, messages, {root}) => {
+            root.walkDecls('width', (decl) => {
+                if (decl.value.length < 5) {
+                    report({
+                        message: messages.shouldBePadded(),
+                        node: decl,
+                        fix: () => {
+                            decl.value = `0${decl.value}`;
+                        },
+                    });
+                }
+            });
+        },
+    });
+
+    it('should fail when the fixed code is reported again', async () => {
+        const [testCase] = createRuleTestCases({
+            ruleName: unstableFixRule.ruleName,
+            rule: unstableFixRule,
+            ruleOptions: true,
+            fix: true,
+            accept: [],
+            reject: [
+                {
+                    code: 'a { width: 1px; }',
+                    message: unstableFixRule.messages.shouldBePadded(),
+                    fixed: 'a { width: 01px; }',
+                },
+            ],
+        });
+
+        await expect(testCase!.run()).rejects.toThrow(
+            'The fixed code still has warnings from "rule-creator/padded-width"',
+        );
+    });
+});
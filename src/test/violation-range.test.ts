@@ -0,0 +1,68 @@
+import {AtRule, parse} from 'postcss';
+import {getViolationRange} from '../violation-range';
+
+describe(getViolationRange.name, () => {
+    const atRule = parse(`a {}\n@import "dir/colors"\n    screen;`).last as AtRule;
+
+    it('should resolve indexes and words into file positions', () => {
+        expect(getViolationRange({node: atRule, index: 13, endIndex: 19})).toEqual({
+            start: {line: 2, column: 14},
+            end: {line: 2, column: 20},
+        });
+        expect(getViolationRange({node: atRule, word: 'screen'})).toEqual({
+            start: {line: 3, column: 5},
+            end: {line: 3, column: 11},
+        });
+        expect(getViolationRange({node: atRule, index: 0})).toEqual({
+            start: {line: 2, column: 1},
+            end: {line: 2, column: 2},
+        });
+    });
+
+    it('should use the whole node when there is no location', () => {
+        expect(getViolationRange({node: atRule})).toBeUndefined();
+    });
+
+    it('should accept positions inside the node', () => {
+        expect(getViolationRange({node: atRule, start: {line: 3, column: 5}})).toEqual({
+            start: {line: 3, column: 5},
+            end: {line: 3, column: 6},
+        });
+    });
+
+    it('should fall back to the whole node when the word is not found', () => {
+        expect(getViolationRange({node: atRule, word: 'print'})).toBeUndefined();
+    });
+
+    it('should reject locations outside of the node', () => {
+        expect(() => getViolationRange({node: atRule, index: 5, endIndex: 100})).toThrow(
+            'Invalid violation range 5-100',
+        );
+        expect(() => getViolationRange({node: atRule, index: 5, endIndex: 5})).toThrow(
+            'Invalid violation range 5-5',
+        );
+        expect(() =>
+            getViolationRange({
+                node: atRule,
+                start: {line: 1, column: 1},
+                end: {line: 2, column: 3},
+            }),
+        ).toThrow('Invalid violation range 1:1-2:3');
+        expect(() =>
+            getViolationRange({
+                node: atRule,
+                start: {line: 3, column: 5},
+                end: {line: 3, column: 1},
+            }),
+        ).toThrow('Invalid violation range 3:5-3:1');
+    });
+
+    it('should reject conflicting locations', () => {
+        expect(() =>
+            getViolationRange({node: atRule, index: 1, start: {line: 2, column: 2}}),
+        ).toThrow('cannot combine start or end positions');
+        expect(() => getViolationRange({node: atRule, index: 1, word: 'dir'})).toThrow(
+            'cannot combine a word',
+        );
+    });
+});
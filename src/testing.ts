@@ -1,2 +1,5 @@
-export * from 'stylelint-jest-rule-tester';
 export * from './default-rule-test';
+export * from './rule-fuzz-test';
+export * from './rule-snapshot';
+export * from './rule-test';
+export * from './test-runner';
@@ -0,0 +1,135 @@
+import {Node} from 'postcss';
+
+/** A line and column in the linted file. Both start at 1, like postcss and stylelint positions. */
+export type RulePosition = {
+    line: number;
+    column: number;
+};
+
+/** The part of the linted file which a violation is reported on. The end is exclusive. */
+export type ViolationRange = {
+    start: RulePosition;
+    end: RulePosition;
+};
+
+/** The RuleViolation properties which describe where the violation is in its node. */
+export type ViolationLocation = {
+    node: Node;
+    index?: number | undefined;
+    endIndex?: number | undefined;
+    word?: string | undefined;
+    start?: RulePosition | undefined;
+    end?: RulePosition | undefined;
+};
+
+function isBefore(first: Readonly<RulePosition>, second: Readonly<RulePosition>): boolean {
+    return first.line < second.line || (first.line === second.line && first.column < second.column);
+}
+
+function formatPosition(position: Readonly<RulePosition>): string {
+    return `${position.line}:${position.column}`;
+}
+
+function isValidIndex(index: number | undefined, nodeLength: number): boolean {
+    return index == undefined || (Number.isInteger(index) && index >= 0 && index <= nodeLength);
+}
+
+function getIndexRange(
+    location: Readonly<ViolationLocation>,
+    nodeText: string,
+): {index: number; endIndex: number} | undefined {
+    if (location.word) {
+        const wordIndex = nodeText.indexOf(location.word);
+        // like postcss and stylelint, fall back to the whole node when the word isn't found
+        return wordIndex === -1
+            ? undefined
+            : {index: wordIndex, endIndex: wordIndex + location.word.length};
+    }
+    if (location.index == undefined && location.endIndex == undefined) {
+        return undefined;
+    }
+    const index = location.index ?? 0;
+    if (
+        !isValidIndex(location.index, nodeText.length) ||
+        !isValidIndex(location.endIndex, nodeText.length) ||
+        (location.endIndex != undefined && location.endIndex <= index)
+    ) {
+        throw new Error(
+            `Invalid violation range ${location.index}-${location.endIndex} for a node with length ${nodeText.length}.`,
+        );
+    }
+    // a lone index reports a single character
+    return {index, endIndex: location.endIndex ?? index + 1};
+}
+
+/**
+ * Gets the text which a violation is reported on, from its word or its index range.
+ *
+ * @returns Undefined when the violation has no word or index range, or its word isn't found.
+ */
+export function getViolationText(location: Readonly<ViolationLocation>): string | undefined {
+    const nodeText = location.node.toString();
+    const indexRange = getIndexRange(location, nodeText);
+    return indexRange && nodeText.slice(indexRange.index, indexRange.endIndex);
+}
+
+function getPositionRange(location: Readonly<ViolationLocation>): ViolationRange | undefined {
+    if (!location.start && !location.end) {
+        return undefined;
+    }
+    const nodeStart = location.node.source?.start;
+    const nodeEnd = location.node.source?.end;
+    const start = location.start ?? nodeStart;
+    if (!start) {
+        throw new Error('Violations without a start position must be on nodes with a source.');
+    }
+    const end = location.end ?? {line: start.line, column: start.column + 1};
+    const nodeEndExclusive = nodeEnd && {line: nodeEnd.line, column: nodeEnd.column + 1};
+
+    if (
+        !isBefore(start, end) ||
+        (nodeStart && isBefore(start, nodeStart)) ||
+        (nodeEndExclusive && isBefore(nodeEndExclusive, end))
+    ) {
+        throw new Error(
+            `Invalid violation range ${formatPosition(start)}-${formatPosition(
+                end,
+            )} for a node from ${nodeStart ? formatPosition(nodeStart) : '?'} to ${
+                nodeEnd ? formatPosition(nodeEnd) : '?'
+            }.`,
+        );
+    }
+    return {start: {line: start.line, column: start.column}, end};
+}
+
+/**
+ * Validates a violation's location against its node and resolves it into file positions. Only
+ * explicit indexes and positions are validated. A word which isn't in the node is ignored.
+ *
+ * @returns Undefined when the violation has no location inside its node (or its word isn't found),
+ *   in which case the whole node is reported.
+ */
+export function getViolationRange(
+    location: Readonly<ViolationLocation>,
+): ViolationRange | undefined {
+    const hasIndexRange =
+        !!location.word || location.index != undefined || location.endIndex != undefined;
+    if (hasIndexRange && (location.start || location.end)) {
+        throw new Error(
+            'Violations cannot combine start or end positions with an index, endIndex, or word.',
+        );
+    }
+    if (location.word && (location.index != undefined || location.endIndex != undefined)) {
+        throw new Error('Violations cannot combine a word with an index or endIndex.');
+    }
+
+    const indexRange = getIndexRange(location, location.node.toString());
+    if (indexRange) {
+        const {start, end} = location.node.rangeBy(indexRange);
+        return {
+            start: {line: start.line, column: start.column},
+            end: {line: end.line, column: end.column},
+        };
+    }
+    return getPositionRange(location);
+}